@@ -1,7 +1,8 @@
 import type { OpenClawPluginApi, PluginRuntime } from "openclaw/plugin-sdk";
-import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
+import { fileURLToPath } from "url";
 
 // ─── Runtime singleton ───────────────────────────────────────
 let pluginRuntime: PluginRuntime | null = null;
@@ -13,12 +14,44 @@ function getRuntime(): PluginRuntime {
 // ─── Types ───────────────────────────────────────────────────
 interface HxaAccessConfig {
   dmPolicy?: "open" | "allowlist";
+  /** Sender patterns allowed to DM (when allowlist) — see matchesSenderPattern() */
   dmAllowFrom?: string[];
+  /** Sender patterns whose DMs are always rejected (overrides allows and "open") */
+  dmDenyFrom?: string[];
   groupPolicy?: "open" | "allowlist" | "disabled";
-  threads?: Record<string, { name?: string; allowFrom?: string[]; added_at?: string; mode?: "mention" | "smart" }>;
+  /** Thread rules matched by tag/topic, in addition to per-thread-ID entries */
+  threadRules?: HxaThreadRule[];
+  /** Admit threads whose tags/topic can't be looked up even when a deny rule depends on them (default: false) */
+  threadRulesFailOpen?: boolean;
+  threads?: Record<string, {
+    name?: string;
+    allowFrom?: string[];
+    denyFrom?: string[];
+    added_at?: string;
+    mode?: "mention" | "smart";
+    /** Per-thread override of the account's `threadContext` budget */
+    context?: HxaThreadContextConfig;
+    /** Per-thread override of `debounce.threadMs` (smart mode only) */
+    debounceMs?: number;
+    /** Per-thread override of the account's `lifecycle` delivery */
+    lifecycle?: Omit<HxaLifecycleConfig, "digestSeconds">;
+  }>;
   threadMode?: "mention" | "smart";
 }
 
+interface HxaThreadRule {
+  /** Tag patterns; the rule matches when any thread tag matches any pattern */
+  tags?: string[];
+  /** Topic pattern (glob or /regex/) */
+  topic?: string;
+  /** Reject matching threads outright (overrides allows) */
+  deny?: boolean;
+  /** Sender patterns allowed in matching threads */
+  allowFrom?: string[];
+  /** Sender patterns rejected in matching threads */
+  denyFrom?: string[];
+}
+
 interface HxaAccountConfig {
   enabled?: boolean;
   hubUrl?: string;
@@ -30,6 +63,138 @@ interface HxaAccountConfig {
   webhookSecret?: string;
   access?: HxaAccessConfig;
   useWebSocket?: boolean;
+  catchup?: HxaCatchupConfig;
+  outbox?: HxaOutboxConfig;
+  webhookAuth?: HxaWebhookAuthConfig;
+  loopGuard?: HxaLoopGuardConfig;
+  threadContext?: HxaThreadContextConfig;
+  rateLimit?: HxaRateLimitConfig;
+  debounce?: HxaDebounceConfig;
+  outbound?: HxaOutboundConfig;
+  lifecycle?: HxaLifecycleConfig;
+  presence?: HxaPresenceConfig;
+}
+
+interface HxaCatchupConfig {
+  /** Replay events missed while disconnected (default: true) */
+  enabled?: boolean;
+  /** Max catch-up events replayed per connect/reconnect (default: 200) */
+  maxEvents?: number;
+}
+
+interface HxaWebhookAuthConfig {
+  /** "bearer" (static token), "hmac" (signed + timestamped), or "auto" (default: HMAC if signed, else bearer) */
+  mode?: "bearer" | "hmac" | "auto";
+  /** Max clock difference accepted for signed requests, in seconds (default: 300) */
+  toleranceSeconds?: number;
+}
+
+interface HxaLoopGuardConfig {
+  /** Detect and pause bot-to-bot reply loops (default: true) */
+  enabled?: boolean;
+  /** Round trips (bot message in + our reply out) that trip the guard (default: 10) */
+  maxTurns?: number;
+  /** Sliding window for counting round trips, in seconds (default: 300) */
+  windowSeconds?: number;
+  /** How long delivery stays paused once tripped, in seconds (default: 600) */
+  pauseSeconds?: number;
+  /** Post a short status message to the thread when a thread loop is paused (default: false) */
+  notifyThread?: boolean;
+}
+
+interface HxaRateBucketConfig {
+  /** Sustained messages per minute */
+  perMinute?: number;
+  /** Bucket size — messages accepted in a burst (default: perMinute) */
+  burst?: number;
+}
+
+interface HxaRateLimitConfig {
+  /** Apply inbound rate limits (default: false) */
+  enabled?: boolean;
+  /** Per sender (default: 20/min) */
+  perSender?: HxaRateBucketConfig;
+  /** Per thread (default: 30/min) */
+  perThread?: HxaRateBucketConfig;
+  /** Per account, across all conversations (default: 120/min) */
+  perAccount?: HxaRateBucketConfig;
+  /** Over the limit: "drop", "coalesce" into one batched delivery, or "defer" each message (default: "coalesce") */
+  overflow?: "drop" | "coalesce" | "defer";
+  /** DM a limited sender, or post in a limited thread, once per cooldown (default: false) */
+  notify?: boolean;
+}
+
+interface HxaDebounceConfig {
+  /** Quiet period (ms) before a burst of DMs from one sender is delivered as one message (default: 0 = off) */
+  dmMs?: number;
+  /** Same for one sender's messages in a smart-mode thread (default: 0 = off) */
+  threadMs?: number;
+  /** Deliver a burst at the latest this long after its first message (default: 10000) */
+  maxWaitMs?: number;
+  /** Deliver a burst once it holds this many messages (default: 10) */
+  maxMessages?: number;
+}
+
+interface HxaOutboundConfig {
+  /** Content type of sent messages: "auto" detects markdown (default), or force "text" / "markdown" */
+  format?: "auto" | "text" | "markdown";
+  /** Add `link` parts for URLs in agent replies (default: false) */
+  linkPreviews?: boolean;
+  /** Max characters per hub message; longer text is split into numbered chunks (default: 8000) */
+  chunkLimit?: number;
+  /** Over the limit in threads: "chunk" (default) or post the full text as a thread "artifact" with a preview */
+  overflow?: "chunk" | "artifact";
+}
+
+/** How a thread lifecycle event reaches the agent: its own run, a log line only, or a periodic digest. */
+type LifecycleDelivery = "deliver" | "log" | "digest";
+
+interface HxaLifecycleConfig {
+  /** Default for all lifecycle event types (default: "deliver") */
+  mode?: LifecycleDelivery;
+  /** Per event type, e.g. `{ "thread_participant": "digest" }` */
+  events?: Partial<Record<ThreadLifecycleType, LifecycleDelivery>>;
+  /** Digest window in seconds (default: 60) */
+  digestSeconds?: number;
+}
+
+interface HxaPresenceConfig {
+  /** Track peer presence from bot_online/bot_offline events and peer list refreshes (default: true) */
+  enabled?: boolean;
+  /** Refresh the peer list from the hub every N seconds (default: 300, 0 = events only) */
+  refreshSeconds?: number;
+  /** Persist the directory under the data directory so it survives restarts (default: false) */
+  persist?: boolean;
+  /** Return a <peer-status> hint when sending to an offline peer (default: true) */
+  hint?: boolean;
+}
+
+interface HxaThreadContextConfig {
+  /** Max buffered messages included in <thread-context> (default: 50) */
+  maxMessages?: number;
+  /** Max characters of buffered context (default: 16000) */
+  maxChars?: number;
+  /** Max approximate tokens of buffered context (~4 chars each); the tighter of maxChars/maxTokens wins */
+  maxTokens?: number;
+  /** Truncate individual context messages longer than this (default: 2000) */
+  maxMessageChars?: number;
+  /** Always include the thread topic and context (fetched from the hub) (default: false) */
+  includeTopic?: boolean;
+  /** Always include the thread's latest artifacts list (fetched from the hub) (default: false) */
+  includeArtifacts?: boolean;
+  /** Backfill recent thread history from the hub when the local buffer is short (default: false) */
+  backfill?: boolean;
+  /** Backfill when fewer than this many messages are buffered, fetching up to this many (default: 20) */
+  backfillMessages?: number;
+}
+
+interface HxaOutboxConfig {
+  /** Queue failed replies for retry instead of dropping them (default: true) */
+  enabled?: boolean;
+  /** Attempts before an entry is moved to dead letters (default: 10) */
+  maxAttempts?: number;
+  /** Max pending entries per account; oldest overflow is dead-lettered (default: 500) */
+  maxQueueSize?: number;
 }
 
 interface HxaConnectChannelConfig {
@@ -46,6 +211,16 @@ interface HxaConnectChannelConfig {
   webhookSecret?: string;
   access?: HxaAccessConfig;
   useWebSocket?: boolean;
+  catchup?: HxaCatchupConfig;
+  outbox?: HxaOutboxConfig;
+  webhookAuth?: HxaWebhookAuthConfig;
+  loopGuard?: HxaLoopGuardConfig;
+  threadContext?: HxaThreadContextConfig;
+  rateLimit?: HxaRateLimitConfig;
+  debounce?: HxaDebounceConfig;
+  outbound?: HxaOutboundConfig;
+  lifecycle?: HxaLifecycleConfig;
+  presence?: HxaPresenceConfig;
   /** Multi-account map */
   accounts?: Record<string, HxaAccountConfig>;
 }
@@ -151,6 +326,16 @@ function resolveAccounts(hxa: HxaConnectChannelConfig): Record<string, HxaAccoun
       webhookSecret: hxa.webhookSecret,
       access: hxa.access,
       useWebSocket: hxa.useWebSocket,
+      catchup: hxa.catchup,
+      outbox: hxa.outbox,
+      webhookAuth: hxa.webhookAuth,
+      loopGuard: hxa.loopGuard,
+      threadContext: hxa.threadContext,
+      rateLimit: hxa.rateLimit,
+      debounce: hxa.debounce,
+      outbound: hxa.outbound,
+      lifecycle: hxa.lifecycle,
+      presence: hxa.presence,
     },
   };
 }
@@ -162,9 +347,16 @@ function resolveAccountConfig(cfg: any, accountId?: string): HxaAccountConfig {
   return accounts[id] || accounts[Object.keys(accounts)[0]] || {};
 }
 
+/** Resolve the effective account ID (falls back to the first configured account). */
+function resolveAccountId(cfg: any, accountId?: string): string {
+  const accounts = resolveAccounts(resolveHxaConnectConfig(cfg));
+  const id = accountId || "default";
+  return accounts[id] ? id : Object.keys(accounts)[0] || id;
+}
+
 function resolveThreadMode(cfg: any, accountId: string | undefined, threadId: string): "mention" | "smart" {
   const acct = resolveAccountConfig(cfg, accountId);
-  return acct.access?.threads?.[threadId]?.mode || "mention";
+  return acct.access?.threads?.[threadId]?.mode === "smart" ? "smart" : "mention";
 }
 
 async function setThreadModeInConfig(
@@ -204,34 +396,359 @@ function countConfiguredAccounts(cfg: any): number {
   return Object.keys(resolveAccounts(hxa)).length;
 }
 
+// ─── Config Validation ───────────────────────────────────────
+
+interface ConfigIssue {
+  severity: "error" | "warning";
+  /** Account the issue belongs to; undefined for channel-wide issues */
+  accountId?: string;
+  /** Dotted path under channels.hxa-connect */
+  path: string;
+  message: string;
+}
+
+/** JSON schema declared in openclaw.plugin.json — the single source of truth for config shape. */
+const manifestConfigSchema: any = (() => {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(new URL("./openclaw.plugin.json", import.meta.url), "utf-8"));
+    return manifest.configSchema ?? null;
+  } catch {
+    return null;
+  }
+})();
+
+function schemaTypeOf(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+/**
+ * Validate a value against the subset of JSON schema used by the manifest
+ * (type, enum, properties, additionalProperties, items). Type mismatches are
+ * errors; unknown keys and enum values the runtime falls back on are warnings.
+ */
+function validateSchemaNode(schema: any, value: unknown, at: string, issues: ConfigIssue[]): void {
+  if (!schema || value === undefined) return;
+  const label = at || "(root)";
+  const actual = schemaTypeOf(value);
+  if (schema.type && schema.type !== actual) {
+    issues.push({ severity: "error", path: label, message: `expected ${schema.type}, got ${actual}` });
+    return;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    issues.push({
+      severity: "warning",
+      path: label,
+      message: `unknown value ${JSON.stringify(value)} (expected one of: ${schema.enum.join(", ")}); default is used`,
+    });
+    return;
+  }
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((item, i) => validateSchemaNode(schema.items, item, `${label}[${i}]`, issues));
+  }
+  if (actual === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      const childPath = at ? `${at}.${key}` : key;
+      if (schema.properties?.[key]) {
+        validateSchemaNode(schema.properties[key], child, childPath, issues);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateSchemaNode(schema.additionalProperties, child, childPath, issues);
+      } else if (schema.additionalProperties === false || schema.properties) {
+        issues.push({ severity: "warning", path: childPath, message: "unknown config key (ignored)" });
+      }
+    }
+  }
+}
+
+/** Attribute a config path to an account (paths under accounts.<id>). */
+function issueAccountId(issuePath: string): string | undefined {
+  const m = /^accounts\.([^.[]+)/.exec(issuePath);
+  return m ? m[1] : undefined;
+}
+
+/**
+ * Validate the raw channels.hxa-connect config: structure against the manifest
+ * schema plus semantic checks on the resolved accounts.
+ */
+function validateHxaConnectConfig(raw: any): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (raw === undefined || raw === null) return issues;
+  if (manifestConfigSchema) validateSchemaNode(manifestConfigSchema, raw, "", issues);
+  for (const issue of issues) issue.accountId = issueAccountId(issue.path);
+  if (issues.some((i) => i.severity === "error" && i.path === "(root)")) return issues;
+
+  const hxa = migrateHxaConnectConfig(raw as HxaConnectChannelConfig);
+  const accounts = resolveAccounts(hxa);
+  const multi = !!(hxa.accounts && Object.keys(hxa.accounts).length > 0);
+  const webhookOwners: Array<{ id: string; path: string }> = [];
+
+  for (const [id, acct] of Object.entries(accounts)) {
+    const base = multi ? `accounts.${id}` : "";
+    const at = (key: string) => (base ? `${base}.${key}` : key);
+    const push = (severity: ConfigIssue["severity"], key: string, message: string) =>
+      issues.push({ severity, accountId: id, path: at(key), message });
+
+    if (acct.enabled === false) continue;
+    if (!acct.agentToken) push("error", "agentToken", "agentToken is required");
+    if (!acct.hubUrl) {
+      push("error", "hubUrl", multi ? "hubUrl is required (or set defaultHubUrl)" : "hubUrl is required");
+    } else {
+      try {
+        const url = new URL(acct.hubUrl);
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          push("error", "hubUrl", `hubUrl must be http(s), got ${url.protocol}`);
+        }
+      } catch {
+        push("error", "hubUrl", `hubUrl is not a valid URL: ${acct.hubUrl}`);
+      }
+    }
+    if (!acct.agentName) push("warning", "agentName", "agentName not set; @mention detection uses \"cococlaw\"");
+
+    const webhookPath = acct.webhookPath ?? "/hxa-connect/inbound";
+    if (!webhookPath.startsWith("/")) push("error", "webhookPath", "webhookPath must start with /");
+    // Only accounts that actually receive webhooks can collide
+    if (multi && (acct.webhookPath || acct.useWebSocket === false)) {
+      webhookOwners.push({ id, path: webhookPath });
+    }
+
+    if (acct.useWebSocket === false && !acct.webhookSecret) {
+      push("warning", "webhookSecret", "useWebSocket is false but no webhookSecret is set; the webhook endpoint is unauthenticated");
+    }
+    if (acct.webhookAuth?.mode === "hmac" && !acct.webhookSecret) {
+      push("error", "webhookAuth.mode", "webhookAuth.mode \"hmac\" requires webhookSecret");
+    }
+    if (acct.access?.dmPolicy === "allowlist" && !acct.access.dmAllowFrom?.length) {
+      push("warning", "access.dmAllowFrom", "dmPolicy is allowlist but dmAllowFrom is empty; all DMs are rejected");
+    }
+    if (acct.outbound?.chunkLimit !== undefined && resolveChunkLimit(acct) !== acct.outbound.chunkLimit) {
+      push("warning", "outbound.chunkLimit", `outbound.chunkLimit must be a number above ${CHUNK_RESERVE * 4}; using ${DEFAULT_CHUNK_LIMIT}`);
+    }
+    const patternLists: [string, unknown][] = [
+      ["access.dmAllowFrom", acct.access?.dmAllowFrom],
+      ["access.dmDenyFrom", acct.access?.dmDenyFrom],
+      ...Object.entries(acct.access?.threads || {}).flatMap(([tid, t]): [string, unknown][] => [
+        [`access.threads.${tid}.allowFrom`, t?.allowFrom],
+        [`access.threads.${tid}.denyFrom`, t?.denyFrom],
+      ]),
+      ...(Array.isArray(acct.access?.threadRules) ? acct.access!.threadRules : []).flatMap((r, i): [string, unknown][] => [
+        [`access.threadRules.${i}.tags`, r?.tags],
+        [`access.threadRules.${i}.topic`, r?.topic ? [r.topic] : []],
+        [`access.threadRules.${i}.allowFrom`, r?.allowFrom],
+        [`access.threadRules.${i}.denyFrom`, r?.denyFrom],
+      ]),
+    ];
+    for (const [key, list] of patternLists) {
+      for (const p of Array.isArray(list) ? list : []) {
+        const body = String(p).replace(/^(id|human):/, "");
+        if (/^\/.+\/[a-z]*$/.test(body) && !compilePattern(body)) {
+          push("warning", key, `invalid regex pattern ${p}; it never matches`);
+        } else if (/^\/.+\/[a-z]*[gy][a-z]*$/.test(body)) {
+          push("warning", key, `regex pattern ${p} has g/y flags; they are ignored`);
+        }
+      }
+    }
+  }
+
+  // Webhook routes match by substring, so equal or nested paths are ambiguous
+  for (const a of webhookOwners) {
+    const clashes = webhookOwners.filter(
+      (b) => b.id !== a.id && (a.path.includes(b.path) || b.path.includes(a.path)),
+    );
+    if (clashes.length === 0) continue;
+    issues.push({
+      severity: "warning",
+      accountId: a.id,
+      path: `accounts.${a.id}.webhookPath`,
+      message: `webhookPath ${a.path} collides with ${clashes.map((c) => `${c.id} (${c.path})`).join(", ")}; inbound webhooks may be routed to the wrong account`,
+    });
+  }
+  return issues;
+}
+
+function formatConfigIssue(issue: ConfigIssue): string {
+  return `channels.hxa-connect.${issue.path}: ${issue.message}`;
+}
+
+/** Plugin config schema backed by the manifest schema (structure only). */
+const hxaConnectConfigSchema = {
+  jsonSchema: manifestConfigSchema ?? { type: "object" },
+  safeParse(value: unknown) {
+    const issues: ConfigIssue[] = [];
+    if (manifestConfigSchema) validateSchemaNode(manifestConfigSchema, value, "", issues);
+    const errors = issues.filter((i) => i.severity === "error");
+    if (errors.length === 0) return { success: true as const, data: value };
+    return {
+      success: false as const,
+      error: { issues: errors.map((i) => ({ path: i.path === "(root)" ? [] : i.path.split("."), message: i.message })) },
+    };
+  },
+};
+
 // ─── Access Control ──────────────────────────────────────────
 
-function isDmAllowed(access: HxaAccessConfig | undefined, senderName: string): boolean {
+/** Who sent a message, for access rule matching. */
+interface SenderIdentity {
+  name: string;
+  id?: string;
+  metadata?: any;
+}
+
+/** Thread attributes used by tag/topic rules. */
+interface ThreadMeta {
+  topic?: string;
+  tags?: string[];
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile an access pattern: `/regex/flags`, a glob with `*` / `?`, or a plain
+ * name. Globs and names match case-insensitively and in full. Invalid regexes
+ * compile to null and never match. The stateful `g`/`y` flags are dropped so a
+ * cached pattern gives the same answer on every test.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let re = compiledPatterns.get(pattern);
+  if (re !== undefined) return re;
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  try {
+    re = literal
+      ? new RegExp(literal[1], literal[2].replace(/[gy]/g, ""))
+      : new RegExp(
+        `^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+        "i",
+      );
+  } catch {
+    re = null;
+  }
+  compiledPatterns.set(pattern, re);
+  return re;
+}
+
+function matchesPattern(pattern: string, value: string | undefined): boolean {
+  if (value == null) return false;
+  return compilePattern(String(pattern))?.test(value) ?? false;
+}
+
+/**
+ * Match a sender against one pattern:
+ * - `*` — anyone
+ * - `id:<pattern>` — sender ID (survives `rename`)
+ * - `human:<pattern>` — human-authored via a bot, matched on provenance `owner_name` (`human:*` for any)
+ * - anything else — sender name (exact, glob or `/regex/`)
+ */
+function matchesSenderPattern(pattern: string, sender: SenderIdentity): boolean {
+  const p = String(pattern);
+  if (p === "*") return true;
+  if (p.startsWith("id:")) return matchesPattern(p.slice(3), sender.id);
+  if (p.startsWith("human:")) {
+    const provenance = parseMetadata(sender.metadata)?.provenance;
+    if (provenance?.authored_by !== "human") return false;
+    return matchesPattern(p.slice(6), String(provenance.owner_name ?? ""));
+  }
+  return matchesPattern(p, sender.name);
+}
+
+function matchesAnySender(patterns: string[] | undefined, sender: SenderIdentity): boolean {
+  return Array.isArray(patterns) && patterns.some((p) => matchesSenderPattern(p, sender));
+}
+
+function asSender(sender: SenderIdentity | string): SenderIdentity {
+  return typeof sender === "string" ? { name: sender } : sender;
+}
+
+/** Thread rules whose tag or topic patterns match the thread (rules with neither never match). */
+function matchingThreadRules(access: HxaAccessConfig | undefined, meta: ThreadMeta | null | undefined): HxaThreadRule[] {
+  const rules = access?.threadRules;
+  if (!Array.isArray(rules) || !rules.length || !meta) return [];
+  return rules.filter((rule) => {
+    if (!rule.tags?.length && !rule.topic) return false;
+    const tagHit = !!rule.tags?.length && (meta.tags || []).some((t) => rule.tags!.some((p) => matchesPattern(p, t)));
+    const topicHit = !!rule.topic && matchesPattern(rule.topic, meta.topic);
+    return tagHit || topicHit;
+  });
+}
+
+function isDmAllowed(access: HxaAccessConfig | undefined, senderArg: SenderIdentity | string): boolean {
+  const sender = asSender(senderArg);
+  if (matchesAnySender(access?.dmDenyFrom, sender)) return false;
   const policy = access?.dmPolicy || "open";
   if (policy === "open") return true;
-  const name = String(senderName || "").toLowerCase();
-  const allowFrom = (access?.dmAllowFrom || []).map((s) => String(s).toLowerCase());
-  return allowFrom.includes(name);
+  return matchesAnySender(access?.dmAllowFrom, sender);
+}
+
+/** Whether any tag/topic rule denies threads or senders, so unknown metadata can't be trusted. */
+function hasThreadDenyRules(access: HxaAccessConfig | undefined): boolean {
+  const rules = access?.threadRules;
+  return Array.isArray(rules) && rules.some((r) => (r.tags?.length || r.topic) && (r.deny || r.denyFrom?.length));
 }
 
-function isThreadAllowed(access: HxaAccessConfig | undefined, threadId: string): boolean {
+function isThreadAllowed(access: HxaAccessConfig | undefined, threadId: string, meta?: ThreadMeta | null): boolean {
   const policy = access?.groupPolicy || "open";
   if (policy === "disabled") return false;
+  // null = failed lookup: a deny rule might have matched, so fail closed unless told otherwise
+  if (meta === null && hasThreadDenyRules(access) && !access?.threadRulesFailOpen) return false;
+  const rules = matchingThreadRules(access, meta);
+  if (rules.some((r) => r.deny)) return false;
   if (policy === "open") return true;
-  return !!access?.threads?.[threadId];
+  return !!access?.threads?.[threadId] || rules.length > 0;
 }
 
 function isSenderAllowed(
   access: HxaAccessConfig | undefined,
   threadId: string,
-  senderName: string,
+  senderArg: SenderIdentity | string,
+  meta?: ThreadMeta | null,
 ): boolean {
+  const sender = asSender(senderArg);
   const tt = access?.threads?.[threadId];
-  const af = Array.isArray(tt?.allowFrom) ? tt.allowFrom : [];
+  const rules = matchingThreadRules(access, meta);
+  const deny = [...(tt?.denyFrom || []), ...rules.flatMap((r) => r.denyFrom || [])];
+  if (matchesAnySender(deny, sender)) return false;
+  const af = [
+    ...(Array.isArray(tt?.allowFrom) ? tt.allowFrom : []),
+    ...rules.flatMap((r) => r.allowFrom || []),
+  ];
   if (af.length === 0) return true;
-  if (af.includes("*")) return true;
-  const name = String(senderName || "").toLowerCase();
-  return af.some((a) => String(a).toLowerCase() === name);
+  return matchesAnySender(af, sender);
+}
+
+const THREAD_META_TTL_MS = 10 * 60 * 1000;
+
+/** accountId → threadId → topic/tags/status, fed by lifecycle events and hub lookups. */
+const threadMetaCache = new Map<string, Map<string, ThreadMeta & { status?: string; fetchedAt: number }>>();
+
+function rememberThreadMeta(accountId: string, thread: any): void {
+  if (!thread?.id) return;
+  let cache = threadMetaCache.get(accountId);
+  if (!cache) {
+    cache = new Map();
+    threadMetaCache.set(accountId, cache);
+  }
+  cache.delete(thread.id);
+  cache.set(thread.id, { topic: thread.topic, tags: thread.tags, status: thread.status, fetchedAt: Date.now() });
+  if (cache.size > 1000) cache.delete(cache.keys().next().value!);
+}
+
+/**
+ * Topic/tags for tag- and topic-based thread rules. Only looked up when the
+ * account has rules; a failed lookup returns null, which isThreadAllowed()
+ * rejects when a deny rule depends on tags or topic.
+ */
+async function resolveThreadMeta(accountId: string, acct: HxaAccountConfig, threadId: string): Promise<ThreadMeta | null> {
+  if (!acct.access?.threadRules?.length) return null;
+  const cached = threadMetaCache.get(accountId)?.get(threadId);
+  if (cached && Date.now() - cached.fetchedAt < THREAD_META_TTL_MS) return cached;
+  try {
+    const resp = await hubFetch(acct, `/api/threads/${encodeURIComponent(threadId)}`, { method: "GET" });
+    const thread: any = await resp.json();
+    rememberThreadMeta(accountId, { ...thread, id: threadId });
+    return { topic: thread?.topic, tags: thread?.tags };
+  } catch (err: any) {
+    console.warn(`[hxa-connect:${accountId}] thread lookup for access rules failed (${threadId}): ${err.message}`);
+    return cached ?? null;
+  }
 }
 
 // ─── Outbound: send message to HXA-Connect ───────────────────
@@ -264,7 +781,8 @@ async function hubFetch(
   if (acct.orgId) {
     headers["X-Org-Id"] = acct.orgId;
   }
-  if (init.body) {
+  // FormData bodies (file uploads) set their own multipart boundary
+  if (init.body && typeof init.body === "string") {
     headers["Content-Type"] = "application/json";
   }
 
@@ -291,21 +809,146 @@ async function hubFetch(
   throw new Error(`HXA-Connect ${path} failed: exhausted retries`);
 }
 
+type OutboundContentType = "text" | "markdown";
+
+interface OutboundOptions {
+  replyTo?: string;
+  parts?: any[];
+  /** Overrides the account's `outbound.format` */
+  contentType?: OutboundContentType;
+}
+
+/** Syntax that only shows up in text meant to be rendered as markdown. */
+const MARKDOWN_PATTERNS: RegExp[] = [
+  /^#{1,6}\s+\S/m, // heading
+  /^```/m, // fenced code
+  /`[^`\n]+`/, // inline code
+  /\*\*[^*\n]+\*\*|__[^_\n]+__/, // bold
+  /\[[^\]\n]+\]\([^)\s]+\)/, // link
+  /^\s*(?:[-*+]|\d+\.)\s+\S.*\n\s*(?:[-*+]|\d+\.)\s+\S/m, // list (2+ items)
+  /^>\s/m, // blockquote
+  /^\|.*\|\s*\n\|?\s*:?-{3,}/m, // table
+];
+
+function looksLikeMarkdown(text: string): boolean {
+  return MARKDOWN_PATTERNS.some((re) => re.test(text));
+}
+
+function resolveContentType(acct: HxaAccountConfig, text: string, explicit?: OutboundContentType): OutboundContentType {
+  if (explicit) return explicit;
+  const format = acct.outbound?.format ?? "auto";
+  if (format !== "auto") return format;
+  return looksLikeMarkdown(text) ? "markdown" : "text";
+}
+
+const DEFAULT_CHUNK_LIMIT = 8000;
+/** Room left in each chunk for a closing fence and the "(i/n)" marker. */
+const CHUNK_RESERVE = 32;
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Split text into chunks of at most `limit` characters, preferring paragraph,
+ * then line, then word boundaries. A code fence left open at a split is closed
+ * at the end of the chunk and reopened (same info string) in the next one.
+ */
+function chunkOutboundText(text: string, limit: number): string[] {
+  if (text.length <= limit) return [text];
+  const budget = Math.max(limit - CHUNK_RESERVE, 1);
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > budget) {
+    const window = rest.slice(0, budget + 1);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < budget * 0.5) cut = window.lastIndexOf("\n");
+    if (cut < budget * 0.3) cut = window.lastIndexOf(" ");
+    if (cut < budget * 0.3) cut = budget;
+    let chunk = rest.slice(0, cut).replace(/\s+$/, "");
+    rest = rest.slice(cut).replace(/^\n+/, "");
+
+    // Fence still open at the end of this chunk?
+    let open: string | null = null;
+    for (const line of chunk.split("\n")) {
+      const fence = FENCE_RE.exec(line)?.[1];
+      if (!fence) continue;
+      if (!open) open = line.trim();
+      else if (fence[0] === open[0] && fence.length >= /^(`+|~+)/.exec(open)![1].length) open = null;
+    }
+    if (open) {
+      chunk += `\n${/^(`+|~+)/.exec(open)![1]}`;
+      if (open.length < budget / 4) rest = `${open}\n${rest}`;
+    }
+    if (chunk) chunks.push(chunk);
+  }
+  if (rest.trim()) chunks.push(rest);
+  return chunks.length > 1 ? chunks.map((c, i) => `${c}\n\n(${i + 1}/${chunks.length})`) : chunks;
+}
+
+function resolveChunkLimit(acct: HxaAccountConfig): number {
+  const limit = acct.outbound?.chunkLimit;
+  return typeof limit === "number" && limit > CHUNK_RESERVE * 4 ? limit : DEFAULT_CHUNK_LIMIT;
+}
+
+/**
+ * Send text through `sendOne` in chunks. All chunks share the content type
+ * (detected on the full text) and `reply_to`; parts go with the last chunk.
+ * Returns the first chunk's result.
+ */
+async function sendInChunks(
+  acct: HxaAccountConfig,
+  text: string,
+  options: OutboundOptions | undefined,
+  sendOne: (text: string, options: OutboundOptions) => Promise<{ ok: boolean; messageId?: string }>,
+): Promise<{ ok: boolean; messageId?: string }> {
+  const chunks = chunkOutboundText(text, resolveChunkLimit(acct));
+  const contentType = resolveContentType(acct, text, options?.contentType);
+  let first: { ok: boolean; messageId?: string } | undefined;
+  for (const [i, chunk] of chunks.entries()) {
+    const result = await sendOne(chunk, {
+      ...options,
+      contentType,
+      parts: i === chunks.length - 1 ? options?.parts : undefined,
+    });
+    first ??= result;
+  }
+  return first!;
+}
+
+/** Post text too long for one message as a markdown thread artifact; returns its key. */
+async function postOverflowArtifact(acct: HxaAccountConfig, threadId: string, text: string): Promise<string> {
+  const key = `reply-${Date.now().toString(36)}`;
+  const title = /^#{1,6}\s+(.+)$/m.exec(text)?.[1]?.trim().slice(0, 80) || "Full reply";
+  await hubFetch(acct, `/api/threads/${threadId}/artifacts`, {
+    method: "POST",
+    body: JSON.stringify({ artifact_key: key, type: "markdown", title, content: text }),
+  });
+  return key;
+}
+
+/** Build a message body, attaching structured parts when present. */
+function buildMessageBody(acct: HxaAccountConfig, text: string, options?: OutboundOptions): Record<string, any> {
+  const body: Record<string, any> = { content: text, content_type: resolveContentType(acct, text, options?.contentType) };
+  if (options?.parts?.length) body.parts = options.parts;
+  return body;
+}
+
 /** Send a DM to an agent by name (auto-creates direct channel). */
 async function sendDM(
   acct: HxaAccountConfig,
   to: string,
   text: string,
+  options?: OutboundOptions,
 ): Promise<{ ok: boolean; messageId?: string }> {
   if (!acct.hubUrl || !acct.agentToken) {
     throw new Error("HXA-Connect not configured (missing hubUrl or agentToken)");
   }
-  const resp = await hubFetch(acct, "/api/send", {
-    method: "POST",
-    body: JSON.stringify({ to, content: text, content_type: "text" }),
+  return sendInChunks(acct, text, options, async (chunk, opts) => {
+    const resp = await hubFetch(acct, "/api/send", {
+      method: "POST",
+      body: JSON.stringify({ to, ...buildMessageBody(acct, chunk, opts) }),
+    });
+    const result = (await resp.json()) as any;
+    return { ok: true, messageId: result?.message?.id };
   });
-  const result = (await resp.json()) as any;
-  return { ok: true, messageId: result?.message?.id };
 }
 
 /** Send a message to a thread. */
@@ -313,7 +956,7 @@ async function sendToThread(
   acct: HxaAccountConfig,
   threadId: string,
   text: string,
-  options?: { replyTo?: string },
+  options?: OutboundOptions,
 ): Promise<{ ok: boolean; messageId?: string }> {
   if (/^\s*\[SKIP\](?:\s|$)/i.test(text)) {
     console.info(`[hxa-connect] [SKIP] filtered for thread ${threadId}`);
@@ -323,8 +966,25 @@ async function sendToThread(
     throw new Error("HXA-Connect not configured (missing hubUrl or agentToken)");
   }
   assertSafePathSegment(threadId, "thread_id");
-  const body: Record<string, string> = { content: text, content_type: "text" };
-  if (options?.replyTo) body.reply_to = options.replyTo;
+
+  const limit = resolveChunkLimit(acct);
+  if (text.length > limit && acct.outbound?.overflow === "artifact") {
+    const key = await postOverflowArtifact(acct, threadId, text);
+    // Keep the preview readable even when chunkLimit leaves little room for the notice
+    const preview = chunkOutboundText(text, Math.max(limit - 200, CHUNK_RESERVE * 4))[0].replace(/\n\n\(1\/\d+\)$/, "");
+    text = `${preview}\n\n… full reply (${text.length} chars) in artifact \`${key}\``;
+  }
+  return sendInChunks(acct, text, options, (chunk, opts) => postThreadMessage(acct, threadId, chunk, opts));
+}
+
+async function postThreadMessage(
+  acct: HxaAccountConfig,
+  threadId: string,
+  text: string,
+  options: OutboundOptions,
+): Promise<{ ok: boolean; messageId?: string }> {
+  const body = buildMessageBody(acct, text, options);
+  if (options.replyTo) body.reply_to = options.replyTo;
 
   try {
     const resp = await hubFetch(acct, `/api/threads/${threadId}/messages`, {
@@ -335,9 +995,9 @@ async function sendToThread(
     return { ok: true, messageId: result?.message?.id };
   } catch (err: any) {
     // If reply_to fails (message deleted/invalid), retry without it
-    if (options?.replyTo && (err?.status === 400 || err?.status === 404)) {
+    if (options.replyTo && (err?.status === 400 || err?.status === 404)) {
       console.warn(`[hxa-connect] reply_to ${options.replyTo} failed (${err?.status}), sending without reply`);
-      const fallbackBody = { content: text, content_type: "text" };
+      const fallbackBody = buildMessageBody(acct, text, options);
       const resp = await hubFetch(acct, `/api/threads/${threadId}/messages`, {
         method: "POST",
         body: JSON.stringify(fallbackBody),
@@ -349,42 +1009,69 @@ async function sendToThread(
   }
 }
 
+interface OutboundRoute {
+  accountId: string;
+  acct: HxaAccountConfig;
+  /** Destination of a send to an existing thread, channel or DM. */
+  resolved?: ResolvedTarget;
+  /** Thread to create for a `new-thread:` target, with participants already validated. */
+  newThread?: NewThreadTarget;
+}
+
+/**
+ * Resolve a target to the account named by an `account/` prefix (or the given
+ * account) and its destination, and check the loop guard, without sending.
+ * Callers with work to do before the send (media uploads) resolve first, so a
+ * bad or paused target fails before that work is done.
+ */
+async function resolveOutboundRoute(cfg: any, accountIdArg: string | undefined, rawTarget: string): Promise<OutboundRoute> {
+  const { accountId, target } = splitAccountTarget(cfg, accountIdArg, rawTarget);
+  const acct = resolveAccountConfig(cfg, accountId);
+  if (NEW_THREAD_TARGET_RE.test(target)) {
+    const spec = parseNewThreadTarget(target);
+    return { accountId, acct, newThread: { ...spec, participants: await resolveThreadParticipants(accountId, acct, spec.participants) } };
+  }
+  const resolved = await resolveOutboundTarget(accountId, acct, target);
+  guardLoopOutbound(accountId, acct, formatResolvedTarget(resolved));
+  return { accountId, acct, resolved };
+}
+
 /** Route an outbound message to the correct destination (thread, channel, or DM). */
 async function routeOutboundMessage(
-  acct: HxaAccountConfig,
-  target: string,
+  cfg: any,
+  accountIdArg: string | undefined,
+  rawTarget: string,
   text: string,
-  options?: { replyTo?: string },
-): Promise<{ ok: boolean; messageId?: string }> {
-  // Case-insensitive thread: prefix
-  if (/^thread:/i.test(target)) {
-    return sendToThread(acct, target.slice("thread:".length), text, options);
-  }
-  // UUID — probe if it's a thread; only fall back to DM on 404 probe failure
-  if (UUID_RE.test(target)) {
-    let isThread = false;
-    try {
-      await hubFetch(acct, `/api/threads/${target}`, { method: "GET" });
-      isThread = true;
-    } catch (probeErr: any) {
-      // Only treat 404/NOT_FOUND as "not a thread" — other errors should throw
-      if (probeErr?.status === 404) {
-        // Target is not a thread, fall through to DM
-      } else {
-        throw probeErr;
-      }
-    }
-    if (isThread) {
-      return await sendToThread(acct, target, text, options);
-    }
-    return await sendDM(acct, target, text);
+  options?: OutboundOptions,
+): Promise<{ ok: boolean; messageId?: string; threadId?: string; accountId: string; acct: HxaAccountConfig; target: string }> {
+  return sendToRoute(await resolveOutboundRoute(cfg, accountIdArg, rawTarget), text, options);
+}
+
+/** Send to a route from resolveOutboundRoute. */
+async function sendToRoute(
+  route: OutboundRoute,
+  text: string,
+  options?: OutboundOptions,
+): Promise<{ ok: boolean; messageId?: string; threadId?: string; accountId: string; acct: HxaAccountConfig; target: string }> {
+  const { accountId, acct, resolved } = route;
+  if (route.newThread) {
+    const result = await startThreadWithMessage(accountId, acct, route.newThread, text, options);
+    return { ...result, accountId, acct, target: `thread:${result.threadId}` };
   }
-  // Channel ID
-  if (CHANNEL_ID_RE.test(target) && target.length > 20) {
-    return sendToChannel(acct, target, text);
+  if (!resolved) throw new Error("HXA-Connect outbound route has no destination");
+  const target = formatResolvedTarget(resolved);
+  let result: { ok: boolean; messageId?: string };
+  switch (resolved.kind) {
+    case "thread":
+      result = await sendToThread(acct, resolved.id, text, options);
+      break;
+    case "channel":
+      result = await sendToChannel(acct, resolved.id, text, options);
+      break;
+    default:
+      result = await sendDM(acct, resolved.id, text, options);
   }
-  // Default: DM by bot name
-  return sendDM(acct, target, text);
+  return { ...result, accountId, acct, target };
 }
 
 /** Send a message to a specific channel by ID. */
@@ -392,6 +1079,7 @@ async function sendToChannel(
   acct: HxaAccountConfig,
   channelId: string,
   text: string,
+  options?: OutboundOptions,
 ): Promise<{ ok: boolean; messageId?: string }> {
   if (!acct.hubUrl || !acct.agentToken) {
     throw new Error("HXA-Connect not configured (missing hubUrl or agentToken)");
@@ -399,12 +1087,14 @@ async function sendToChannel(
   if (!CHANNEL_ID_RE.test(channelId)) {
     throw new Error(`Invalid channel_id: ${channelId.slice(0, 40)}`);
   }
-  const resp = await hubFetch(acct, `/api/channels/${channelId}/messages`, {
-    method: "POST",
-    body: JSON.stringify({ content: text, content_type: "text" }),
+  return sendInChunks(acct, text, options, async (chunk, opts) => {
+    const resp = await hubFetch(acct, `/api/channels/${channelId}/messages`, {
+      method: "POST",
+      body: JSON.stringify(buildMessageBody(acct, chunk, opts)),
+    });
+    const result = (await resp.json()) as any;
+    return { ok: true, messageId: result?.message?.id };
   });
-  const result = (await resp.json()) as any;
-  return { ok: true, messageId: result?.message?.id };
 }
 
 /** Fetch channel metadata. */
@@ -422,49 +1112,1700 @@ async function fetchChannelInfo(
   }
 }
 
-// ─── WebSocket Connection Manager ────────────────────────────
+// ─── Outbound Target Resolution ──────────────────────────────
 
-interface WsConnection {
-  client: any; // HxaConnectClient
-  threadCtx: any; // ThreadContext
-  accountId: string;
-  config: HxaAccountConfig;
-  disconnect: () => void;
+interface ResolvedTarget {
+  kind: "dm" | "thread" | "channel";
+  /** Bot name for DMs, otherwise the thread/channel ID */
+  id: string;
 }
 
-const wsConnections = new Map<string, WsConnection>();
+interface TargetDirectory {
+  channels: Map<string, string | null>; // channel ID → name
+  notThreads: Map<string, number>; // IDs a probe found not to be threads → probed at
+  refreshedAt: number;
+  refreshing: Promise<void> | null;
+}
 
-// ─── Attachment Formatting ────────────────────────────────────
+const TARGET_DIRECTORY_TTL_MS = 5 * 60 * 1000;
+const MAX_TARGET_DIRECTORY_ENTRIES = 1000;
+const CLOSED_THREAD_STATUSES = new Set(["resolved", "closed"]);
 
-function formatBytes(bytes: unknown): string {
-  if (typeof bytes !== "number" || !Number.isFinite(bytes) || bytes < 0) return "?B";
-  if (bytes < 1024) return `${bytes}B`;
-  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)}KB`;
-  return `${(bytes / 1048576).toFixed(1)}MB`;
+/**
+ * accountId → channels and negative probe results. Threads (with topics) live
+ * in threadMetaCache and peers in the presence directory.
+ */
+const targetDirectories = new Map<string, TargetDirectory>();
+
+function getTargetDirectory(accountId: string): TargetDirectory {
+  let dir = targetDirectories.get(accountId);
+  if (!dir) {
+    dir = { channels: new Map(), notThreads: new Map(), refreshedAt: 0, refreshing: null };
+    targetDirectories.set(accountId, dir);
+  }
+  return dir;
 }
 
-// Format non-text message parts (image, file, link) as inline references.
-// Text/markdown parts are already captured via msg.content; json parts are
-// complex objects not suitable for inline display — both are skipped here.
-const MAX_ATTACHMENT_PARTS = 20;
+function boundedSet<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_TARGET_DIRECTORY_ENTRIES) map.delete(map.keys().next().value!);
+}
 
-function formatAttachments(parts: any[] | undefined | null, localPaths?: Record<string, string>): string {
-  if (!parts || !parts.length) return "";
-  const refs: string[] = [];
-  let truncated = 0;
-  for (const part of parts) {
-    if (refs.length >= MAX_ATTACHMENT_PARTS) {
-      // Only count parts that would have produced a ref
-      if (part.type === "image" || part.type === "file" || part.type === "link"
-          || (part.type && part.url)) {
-        truncated++;
-      }
-      continue;
+function rememberChannel(accountId: string, channelId: string, name: string | null): void {
+  boundedSet(getTargetDirectory(accountId).channels, channelId, name);
+}
+
+/** Apply a thread status change to a cached thread without refreshing its tags. */
+function updateThreadTarget(accountId: string, threadId: string, patch: { topic?: string; status?: string }): void {
+  const cached = threadMetaCache.get(accountId)?.get(threadId);
+  if (!cached) return;
+  if (patch.topic) cached.topic = patch.topic;
+  if (patch.status) cached.status = patch.status;
+}
+
+function forgetThreadTarget(accountId: string, threadId: string): void {
+  threadMetaCache.get(accountId)?.delete(threadId);
+}
+
+/** Reload peers and threads from the hub, at most once per TTL. */
+async function refreshTargetDirectory(accountId: string, acct: HxaAccountConfig): Promise<void> {
+  const dir = getTargetDirectory(accountId);
+  if (Date.now() - dir.refreshedAt < TARGET_DIRECTORY_TTL_MS) return;
+  dir.refreshing ??= (async () => {
+    try {
+      const [peers, threads] = await Promise.all([
+        hubFetch(acct, "/api/peers", { method: "GET" }).then((r) => r.json()),
+        hubFetch(acct, "/api/threads", { method: "GET" }).then((r) => r.json()),
+      ]);
+      applyPeerList(accountId, peers);
+      const list: any[] = Array.isArray(threads) ? threads : ((threads as any)?.threads || []);
+      for (const thread of list) rememberThreadMeta(accountId, thread);
+    } catch (err: any) {
+      console.warn(`[hxa-connect:${accountId}] Target directory refresh failed: ${err.message}`);
+    } finally {
+      dir.refreshedAt = Date.now();
+      dir.refreshing = null;
     }
-    switch (part.type) {
-      case "image": {
-        if (!part.url) break;
-        const loc = localPaths?.[part.url];
+  })();
+  return dir.refreshing;
+}
+
+/** Thread whose topic matches exactly (case-insensitive), preferring open threads. */
+function matchThreadTopic(accountId: string, topic: string): ResolvedTarget | undefined {
+  const wanted = topic.toLowerCase();
+  const matches = [...(threadMetaCache.get(accountId) ?? [])].filter(([, m]) => m.topic?.toLowerCase() === wanted);
+  const open = matches.filter(([, m]) => !CLOSED_THREAD_STATUSES.has(m.status ?? ""));
+  const candidates = open.length ? open : matches;
+  if (candidates.length > 1) {
+    throw new Error(`Ambiguous thread topic "${topic}" (${candidates.map(([id]) => id).join(", ")}); use thread:<id>`);
+  }
+  return candidates.length ? { kind: "thread", id: candidates[0][0] } : undefined;
+}
+
+function lookupTarget(accountId: string, target: string): ResolvedTarget | undefined {
+  if (threadMetaCache.get(accountId)?.has(target)) return { kind: "thread", id: target };
+  if (targetDirectories.get(accountId)?.channels.has(target)) return { kind: "channel", id: target };
+  const peer = lookupPeer(accountId, target);
+  if (peer) return { kind: "dm", id: peer.name };
+  return matchThreadTopic(accountId, target);
+}
+
+/** Whether an unknown ID is a thread; answers are cached so each ID is probed at most once per TTL. */
+async function probeThread(accountId: string, acct: HxaAccountConfig, id: string): Promise<boolean> {
+  const dir = getTargetDirectory(accountId);
+  const probedAt = dir.notThreads.get(id);
+  if (probedAt && Date.now() - probedAt < TARGET_DIRECTORY_TTL_MS) return false;
+  try {
+    const resp = await hubFetch(acct, `/api/threads/${encodeURIComponent(id)}`, { method: "GET" });
+    rememberThreadMeta(accountId, { ...((await resp.json()) as any), id });
+    return true;
+  } catch (err: any) {
+    // Only 404 means "not a thread" — other errors should throw
+    if (err?.status !== 404) throw err;
+    boundedSet(dir.notThreads, id, Date.now());
+    return false;
+  }
+}
+
+const TARGET_SYNTAX_HELP = "use dm:<name|id>, thread:<id>, channel:<id> or new-thread:<topic>, optionally prefixed with <account>/";
+const EXPLICIT_TARGET_RE = /^(dm|thread|channel):(.*)$/i;
+const NEW_THREAD_TARGET_RE = /^new-thread:/i;
+const ACCOUNT_TARGET_RE = /^([\w-]+)\/(.+)$/;
+
+/** Split an `account/` prefix off a target; only configured account IDs count as prefixes. */
+function splitAccountTarget(cfg: any, accountId: string | undefined, raw: string): { accountId: string; target: string } {
+  const target = raw.trim();
+  const prefixed = ACCOUNT_TARGET_RE.exec(target);
+  if (prefixed) {
+    const accounts = resolveAccounts(resolveHxaConnectConfig(cfg));
+    if (Object.hasOwn(accounts, prefixed[1])) return { accountId: prefixed[1], target: prefixed[2] };
+    if (EXPLICIT_TARGET_RE.test(prefixed[2]) || NEW_THREAD_TARGET_RE.test(prefixed[2]) || prefixed[2].startsWith("@")) {
+      throw new Error(`Unknown HXA-Connect account "${prefixed[1]}" in target "${target}" (configured: ${Object.keys(accounts).join(", ") || "none"})`);
+    }
+  }
+  return { accountId: resolveAccountId(cfg, accountId), target };
+}
+
+/** Syntax check for `looksLikeId`; whether the bot/thread exists is checked at send time. */
+function isWellFormedTarget(raw: string): boolean {
+  let target = raw.trim();
+  const prefixed = ACCOUNT_TARGET_RE.exec(target);
+  if (prefixed && (EXPLICIT_TARGET_RE.test(prefixed[2]) || NEW_THREAD_TARGET_RE.test(prefixed[2]) || prefixed[2].startsWith("@"))) {
+    target = prefixed[2];
+  }
+  if (NEW_THREAD_TARGET_RE.test(target)) {
+    try { return !!parseNewThreadTarget(target); } catch { return false; }
+  }
+  const explicit = EXPLICIT_TARGET_RE.exec(target);
+  if (explicit) {
+    const value = explicit[2].trim();
+    return explicit[1].toLowerCase() === "dm" ? /^[^\s/]+$/.test(value) : CHANNEL_ID_RE.test(value);
+  }
+  if (target.startsWith("@")) return /^@[^\s@/]+$/.test(target);
+  return target.length > 0;
+}
+
+function formatResolvedTarget(target: ResolvedTarget): string {
+  return target.kind === "dm" ? target.id : `${target.kind}:${target.id}`;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Known peers and threads whose name, ID or topic is close to a mistyped target. */
+function suggestTargets(accountId: string, value: string, limit = 3): string[] {
+  const wanted = value.toLowerCase();
+  const candidates = [
+    ...[...(presenceDirectories.get(accountId)?.peers.values() ?? [])]
+      .map((p) => ({ label: `dm:${p.name}`, keys: [p.name, p.id] })),
+    ...[...(threadMetaCache.get(accountId) ?? [])]
+      .map(([id, m]) => ({ label: `thread:${id}${m.topic ? ` ("${m.topic}")` : ""}`, keys: [id, m.topic] })),
+  ];
+  const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+  return candidates
+    .map((c) => {
+      const scores = c.keys.filter((k): k is string => !!k).map((k) => {
+        const key = k.toLowerCase();
+        return wanted.length >= 3 && key.includes(wanted) ? 1 : editDistance(key, wanted);
+      });
+      return { label: c.label, score: Math.min(...scores) };
+    })
+    .filter((c) => c.score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.label.localeCompare(b.label))
+    .slice(0, limit)
+    .map((c) => c.label);
+}
+
+function unknownTargetError(accountId: string, what: string, value: string): Error {
+  const matches = suggestTargets(accountId, value);
+  const hint = matches.length ? `did you mean ${matches.join(", ")}?` : TARGET_SYNTAX_HELP;
+  return new Error(`Unknown HXA-Connect ${what} "${value}" for account ${accountId}; ${hint}`);
+}
+
+/** Bot name for a DM target; rejected when the (non-empty) peer directory doesn't know it. */
+async function requirePeer(accountId: string, acct: HxaAccountConfig, nameOrId: string): Promise<string> {
+  const known = lookupPeer(accountId, nameOrId);
+  if (known) return known.name;
+  await refreshTargetDirectory(accountId, acct);
+  const fresh = lookupPeer(accountId, nameOrId);
+  if (fresh) return fresh.name;
+  // Without a peer list (e.g. the hub refresh failed) the hub has the final say
+  if (!presenceDirectories.get(accountId)?.peers.size) return nameOrId;
+  throw unknownTargetError(accountId, "bot", nameOrId);
+}
+
+async function requireThread(accountId: string, acct: HxaAccountConfig, threadId: string): Promise<string> {
+  if (threadMetaCache.get(accountId)?.has(threadId)) return threadId;
+  if (await probeThread(accountId, acct, threadId)) return threadId;
+  throw unknownTargetError(accountId, "thread", threadId);
+}
+
+/**
+ * Resolve an outbound target. Explicit forms (`dm:<name|id>`, `@name`,
+ * `thread:<id>`, `channel:<id>`) are validated against the account's
+ * directory; a bare target is looked up among known threads, channels, peers
+ * (by name or ID) and thread topics, reloading the directory once on a miss.
+ * Unknown UUIDs are probed; anything else must be a known bot.
+ */
+async function resolveOutboundTarget(accountId: string, acct: HxaAccountConfig, raw: string): Promise<ResolvedTarget> {
+  const target = raw.trim();
+  const explicit = EXPLICIT_TARGET_RE.exec(target);
+  if (explicit) {
+    const kind = explicit[1].toLowerCase() as ResolvedTarget["kind"];
+    const value = explicit[2].trim();
+    if (!isWellFormedTarget(target)) {
+      throw new Error(`Invalid HXA-Connect target "${raw}"; ${TARGET_SYNTAX_HELP}`);
+    }
+    if (kind === "channel") return { kind, id: value };
+    if (kind === "thread") return { kind, id: await requireThread(accountId, acct, value) };
+    return { kind, id: await requirePeer(accountId, acct, value) };
+  }
+  if (target.startsWith("@")) return { kind: "dm", id: await requirePeer(accountId, acct, target.slice(1)) };
+  if (!target) throw new Error(`Empty HXA-Connect target; ${TARGET_SYNTAX_HELP}`);
+  const cached = lookupTarget(accountId, target);
+  if (cached) return cached;
+  await refreshTargetDirectory(accountId, acct);
+  const fresh = lookupTarget(accountId, target);
+  if (fresh) return fresh;
+  if (UUID_RE.test(target) && await probeThread(accountId, acct, target)) return { kind: "thread", id: target };
+  return { kind: "dm", id: await requirePeer(accountId, acct, target) };
+}
+
+interface NewThreadTarget {
+  topic: string;
+  tags: string[];
+  participants: string[];
+}
+
+/**
+ * Parse `new-thread:<topic>[?tags=a,b&participants=x,y]`. The options are only
+ * split off when the text after the last `?` is a query string, so topics
+ * ending in a question mark stay intact.
+ */
+function parseNewThreadTarget(raw: string): NewThreadTarget {
+  let topic = raw.trim().replace(NEW_THREAD_TARGET_RE, "");
+  let query = "";
+  const q = topic.lastIndexOf("?");
+  if (q >= 0 && /^\w+=[^&]*(?:&\w+=[^&]*)*$/.test(topic.slice(q + 1))) {
+    query = topic.slice(q + 1);
+    topic = topic.slice(0, q);
+  }
+  topic = topic.trim();
+  if (!topic) throw new Error(`Invalid HXA-Connect target "${raw}": new-thread needs a topic`);
+  const params = new URLSearchParams(query);
+  for (const key of params.keys()) {
+    if (key !== "tags" && key !== "participants") {
+      throw new Error(`Invalid HXA-Connect target "${raw}": unknown new-thread option "${key}" (tags, participants)`);
+    }
+  }
+  const list = (key: string) =>
+    [...new Set(params.getAll(key).flatMap((v) => v.split(",")).map((v) => v.trim().replace(/^@/, "")).filter(Boolean))];
+  return { topic, tags: list("tags"), participants: list("participants") };
+}
+
+/** Prefix @mentions for participants the text doesn't mention yet, so they are notified in mention mode. */
+function withParticipantMentions(text: string, participants: string[]): string {
+  const mentioned = new Set([...text.matchAll(/@([^\s@,.;:!?()]+)/g)].map((m) => m[1].toLowerCase()));
+  const missing = participants.filter((name) => !mentioned.has(name.toLowerCase()));
+  return missing.length ? `${missing.map((name) => `@${name}`).join(" ")} ${text}` : text;
+}
+
+/** Validate new-thread participants like DM targets, dropping ourselves and duplicates. */
+async function resolveThreadParticipants(accountId: string, acct: HxaAccountConfig, names: string[]): Promise<string[]> {
+  const participants: string[] = [];
+  for (const p of names) {
+    const name = await requirePeer(accountId, acct, p);
+    if (name !== acct.agentName && !participants.includes(name)) participants.push(name);
+  }
+  return participants;
+}
+
+/**
+ * Create a thread (inviting the participants), then post the first message
+ * with @mentions for them. Participants come from resolveThreadParticipants.
+ */
+async function startThreadWithMessage(
+  accountId: string,
+  acct: HxaAccountConfig,
+  spec: NewThreadTarget,
+  text: string,
+  options?: OutboundOptions,
+): Promise<{ ok: boolean; messageId?: string; threadId: string }> {
+  const { participants } = spec;
+  const body: Record<string, any> = { topic: spec.topic };
+  if (spec.tags.length) body.tags = spec.tags;
+  if (participants.length) body.participants = participants;
+  const resp = await hubFetch(acct, "/api/threads", { method: "POST", body: JSON.stringify(body) });
+  const created: any = await resp.json();
+  const thread = created?.thread ?? created;
+  if (!thread?.id) throw new Error("HXA-Connect thread creation returned no thread ID");
+  rememberThreadMeta(accountId, thread);
+  console.info(`[hxa-connect:${accountId}] Created thread ${thread.id} "${spec.topic}" with ${participants.join(", ") || "no participants"}`);
+
+  guardLoopOutbound(accountId, acct, `thread:${thread.id}`);
+  try {
+    const result = await sendToThread(acct, thread.id, withParticipantMentions(text, participants), { ...options, replyTo: undefined });
+    return { ...result, threadId: thread.id };
+  } catch (err: any) {
+    // Keep the agent from creating a duplicate thread on retry
+    throw new Error(`Created thread ${thread.id} but posting the first message failed: ${err.message}; send to thread:${thread.id}`);
+  }
+}
+
+// ─── Offline Catch-up ────────────────────────────────────────
+
+interface HxaCatchupEvent {
+  type: string;
+  timestamp?: number;
+  thread_id?: string;
+  topic?: string;
+  inviter?: string;
+  from?: string;
+  to?: string;
+  by?: string;
+  channel_id?: string;
+  channel_name?: string;
+  count?: number;
+  [key: string]: any;
+}
+
+const CATCHUP_PAGE_SIZE = 50;
+const DEFAULT_CATCHUP_MAX_EVENTS = 200;
+/** Overlap subtracted from the last-seen mark to absorb clock skew (duplicates are deduped). */
+const CATCHUP_OVERLAP_MS = 5000;
+
+/** Count events missed since the given timestamp. */
+async function fetchCatchupCount(acct: HxaAccountConfig, since: number): Promise<number> {
+  const resp = await hubFetch(acct, `/api/me/catchup/count?since=${since}`, { method: "GET" });
+  const data = (await resp.json()) as any;
+  return typeof data?.total === "number" ? data.total : 0;
+}
+
+/** Fetch missed events since the given timestamp, following pagination up to maxEvents. */
+async function fetchCatchupEvents(
+  acct: HxaAccountConfig,
+  since: number,
+  maxEvents: number,
+): Promise<HxaCatchupEvent[]> {
+  const events: HxaCatchupEvent[] = [];
+  let cursor: string | undefined;
+  while (events.length < maxEvents) {
+    const limit = Math.min(CATCHUP_PAGE_SIZE, maxEvents - events.length);
+    const query = `since=${since}&limit=${limit}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`;
+    const resp = await hubFetch(acct, `/api/me/catchup?${query}`, { method: "GET" });
+    const data = (await resp.json()) as any;
+    const page: HxaCatchupEvent[] = Array.isArray(data?.events) ? data.events : [];
+    events.push(...page);
+    if (!data?.has_more || !data?.cursor || page.length === 0) break;
+    cursor = data.cursor;
+  }
+  return events.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+}
+
+/** Fetch channel messages newer than the given timestamp, oldest first. */
+async function fetchChannelMessagesSince(
+  acct: HxaAccountConfig,
+  channelId: string,
+  since: number,
+): Promise<any[]> {
+  if (!CHANNEL_ID_RE.test(channelId)) return [];
+  const resp = await hubFetch(acct, `/api/channels/${channelId}/messages?since=${since}`, { method: "GET" });
+  const data = (await resp.json()) as any;
+  const messages: any[] = Array.isArray(data) ? data : (data?.messages || []);
+  return messages.sort((a, b) => (a.created_at || 0) - (b.created_at || 0));
+}
+
+// ─── Persistent State ────────────────────────────────────────
+
+let stateWriteSeq = 0;
+
+function accountStateDir(accountId: string): string {
+  return path.join(getRuntime().dataDir, "state", accountId);
+}
+
+/** Read a per-account JSON state file, returning fallback when missing or corrupt. */
+async function readAccountState<T>(accountId: string, name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.promises.readFile(path.join(accountStateDir(accountId), `${name}.json`), "utf-8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Atomically write a per-account JSON state file (tmp file + rename). */
+async function writeAccountState(accountId: string, name: string, data: unknown): Promise<void> {
+  const dir = accountStateDir(accountId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `${name}.json`);
+  const tmp = `${file}.${process.pid}.${++stateWriteSeq}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(data));
+  await fs.promises.rename(tmp, file);
+}
+
+// ─── Inbound Deduplication ──────────────────────────────────
+
+type InboundSource = "websocket" | "webhook" | "catchup";
+
+interface SeenStore {
+  ids: Map<string, number>; // message ID → first seen (ms), insertion ordered
+  duplicates: Record<InboundSource, number>;
+  claimed: number;
+  loaded: boolean;
+  dirty: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const SEEN_MAX_IDS = 5000;
+const SEEN_TTL_MS = 24 * 60 * 60 * 1000;
+const SEEN_PERSIST_DELAY_MS = 5000;
+
+const seenStores = new Map<string, SeenStore>();
+
+function getSeenStore(accountId: string): SeenStore {
+  let store = seenStores.get(accountId);
+  if (!store) {
+    store = {
+      ids: new Map(),
+      duplicates: { websocket: 0, webhook: 0, catchup: 0 },
+      claimed: 0,
+      loaded: false,
+      dirty: false,
+      timer: null,
+    };
+    seenStores.set(accountId, store);
+  }
+  return store;
+}
+
+function pruneSeenStore(store: SeenStore, now: number): void {
+  for (const [id, seenAt] of store.ids) {
+    if (store.ids.size <= SEEN_MAX_IDS && now - seenAt < SEEN_TTL_MS) break;
+    store.ids.delete(id);
+  }
+}
+
+async function flushSeenStore(accountId: string): Promise<void> {
+  const store = seenStores.get(accountId);
+  if (!store) return;
+  if (store.timer) clearTimeout(store.timer);
+  store.timer = null;
+  if (!store.dirty) return;
+  store.dirty = false;
+  try {
+    await writeAccountState(accountId, "seen", { ids: [...store.ids] });
+  } catch (err: any) {
+    console.warn(`[hxa-connect:${accountId}] Failed to persist seen-message store: ${err.message}`);
+  }
+}
+
+/** Merge the persisted seen-message IDs for an account into its store. */
+async function loadSeenStore(accountId: string): Promise<void> {
+  const store = getSeenStore(accountId);
+  if (store.loaded) return;
+  const saved = await readAccountState<{ ids?: [string, number][] }>(accountId, "seen", {});
+  const live = [...store.ids];
+  store.ids = new Map([...(Array.isArray(saved.ids) ? saved.ids : []), ...live]);
+  store.loaded = true;
+  pruneSeenStore(store, Date.now());
+}
+
+/**
+ * Claim an inbound message for dispatch. Returns false (and counts a dropped
+ * duplicate) when the same account already dispatched this message ID via any
+ * path — WebSocket, webhook or catch-up replay. Messages without an ID pass.
+ */
+function claimInboundMessage(accountId: string, messageId: string | undefined, source: InboundSource): boolean {
+  if (!messageId) return true;
+  const store = getSeenStore(accountId);
+  if (store.ids.has(messageId)) {
+    store.duplicates[source]++;
+    return false;
+  }
+  const now = Date.now();
+  store.ids.set(messageId, now);
+  store.claimed++;
+  pruneSeenStore(store, now);
+  store.dirty = true;
+  if (!store.timer) {
+    store.timer = setTimeout(() => void flushSeenStore(accountId), SEEN_PERSIST_DELAY_MS);
+    store.timer.unref?.();
+  }
+  return true;
+}
+
+function getDedupStats(accountId: string): Record<string, any> {
+  const store = getSeenStore(accountId);
+  const { websocket, webhook, catchup } = store.duplicates;
+  return {
+    accountId,
+    tracked: store.ids.size,
+    claimed: store.claimed,
+    duplicatesDropped: websocket + webhook + catchup,
+    duplicatesBySource: { ...store.duplicates },
+  };
+}
+
+// ─── Persistent Thread Buffers ──────────────────────────────
+
+/**
+ * Plugin-side copy of the per-thread message buffer. ThreadContext's own
+ * buffer is in-memory and dropped on stop, so non-triggering thread messages
+ * are mirrored here and persisted under the data directory; they are merged
+ * into <thread-context> on the next delivery in that thread. Also the only
+ * buffer for webhook-delivered thread messages.
+ */
+interface ThreadBuffer {
+  messages: any[];
+  lastDeliveredId?: string;
+  lastDeliveredAt?: number;
+  updatedAt: number;
+}
+
+interface ThreadBufferStore {
+  threads: Map<string, ThreadBuffer>; // least recently active first
+  loaded: boolean;
+  dirty: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_THREAD_BUFFER = 50;
+const MAX_BUFFERED_THREADS = 200;
+const THREAD_BUFFER_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+const THREAD_BUFFER_PERSIST_DELAY_MS = 5000;
+
+const threadBufferStores = new Map<string, ThreadBufferStore>();
+
+function getThreadBufferStore(accountId: string): ThreadBufferStore {
+  let store = threadBufferStores.get(accountId);
+  if (!store) {
+    store = { threads: new Map(), loaded: false, dirty: false, timer: null };
+    threadBufferStores.set(accountId, store);
+  }
+  return store;
+}
+
+function pruneThreadBuffers(store: ThreadBufferStore, now: number): void {
+  for (const [threadId, buffer] of store.threads) {
+    if (store.threads.size <= MAX_BUFFERED_THREADS && now - buffer.updatedAt < THREAD_BUFFER_TTL_MS) break;
+    store.threads.delete(threadId);
+  }
+}
+
+function markThreadBuffersDirty(accountId: string, store: ThreadBufferStore): void {
+  store.dirty = true;
+  if (!store.timer) {
+    store.timer = setTimeout(() => void flushThreadBuffers(accountId), THREAD_BUFFER_PERSIST_DELAY_MS);
+    store.timer.unref?.();
+  }
+}
+
+async function flushThreadBuffers(accountId: string): Promise<void> {
+  const store = threadBufferStores.get(accountId);
+  if (!store) return;
+  if (store.timer) clearTimeout(store.timer);
+  store.timer = null;
+  if (!store.dirty) return;
+  store.dirty = false;
+  try {
+    await writeAccountState(accountId, "threads", { threads: [...store.threads] });
+  } catch (err: any) {
+    console.warn(`[hxa-connect:${accountId}] Failed to persist thread buffers: ${err.message}`);
+  }
+}
+
+/** Restore persisted thread buffers for an account, keeping anything buffered since. */
+async function loadThreadBuffers(accountId: string): Promise<void> {
+  const store = getThreadBufferStore(accountId);
+  if (store.loaded) return;
+  const saved = await readAccountState<{ threads?: [string, ThreadBuffer][] }>(accountId, "threads", {});
+  const live = store.threads;
+  store.threads = new Map(Array.isArray(saved.threads) ? saved.threads : []);
+  for (const [threadId, buffer] of live) {
+    const restored = store.threads.get(threadId);
+    store.threads.delete(threadId);
+    store.threads.set(threadId, restored
+      ? { ...buffer, messages: mergeThreadMessages(restored.messages, buffer.messages).slice(-MAX_THREAD_BUFFER) }
+      : buffer);
+  }
+  store.loaded = true;
+  pruneThreadBuffers(store, Date.now());
+}
+
+/**
+ * Buffer a non-triggering thread message. Skips messages already dispatched
+ * or at/before the thread's last delivery. Returns the thread's buffer size.
+ */
+function bufferThreadMessage(accountId: string, threadId: string, message: any): number {
+  const store = getThreadBufferStore(accountId);
+  const now = Date.now();
+  const buffer = store.threads.get(threadId) ?? { messages: [], updatedAt: now };
+  store.threads.delete(threadId);
+  store.threads.set(threadId, buffer);
+  buffer.updatedAt = now;
+
+  const stale =
+    (message.id && (message.id === buffer.lastDeliveredId || getSeenStore(accountId).ids.has(message.id)))
+    || (buffer.lastDeliveredAt != null && messageTime(message) <= buffer.lastDeliveredAt);
+  if (!stale && !(message.id && buffer.messages.some((m) => m.id === message.id))) {
+    const { id, sender_id, sender_name, content, parts, metadata, created_at } = message;
+    buffer.messages.push({ id, sender_id, sender_name, content, parts, metadata, created_at });
+    if (buffer.messages.length > MAX_THREAD_BUFFER) buffer.messages.splice(0, buffer.messages.length - MAX_THREAD_BUFFER);
+  }
+  pruneThreadBuffers(store, now);
+  markThreadBuffersDirty(accountId, store);
+  return buffer.messages.length;
+}
+
+/** Drain a thread's buffer on delivery and record the delivered message as the new marker. */
+function takeThreadBuffer(accountId: string, threadId: string, delivered: any): any[] {
+  const store = getThreadBufferStore(accountId);
+  const buffer = store.threads.get(threadId);
+  const messages = (buffer?.messages ?? []).filter((m) => !delivered.id || m.id !== delivered.id);
+  const deliveredAt = messageTime(delivered);
+  store.threads.delete(threadId);
+  store.threads.set(threadId, {
+    messages: [],
+    lastDeliveredId: delivered.id,
+    lastDeliveredAt: Number.isFinite(deliveredAt) ? deliveredAt : undefined,
+    updatedAt: Date.now(),
+  });
+  markThreadBuffersDirty(accountId, store);
+  return messages;
+}
+
+// ─── Loop Guard ──────────────────────────────────────────────
+
+interface LoopTrack {
+  inbound: number[]; // timestamps of bot-authored messages delivered to the agent
+  outbound: number[]; // timestamps of our sends
+  pausedUntil: number;
+}
+
+type LoopVerdict = "ok" | "tripped" | "paused";
+
+const DEFAULT_LOOP_MAX_TURNS = 10;
+const DEFAULT_LOOP_WINDOW_SEC = 300;
+const DEFAULT_LOOP_PAUSE_SEC = 600;
+
+/** accountId → conversation key → exchange history */
+const loopTracks = new Map<string, Map<string, LoopTrack>>();
+
+/** Conversation key: "thread:<id>" for threads, lowercased peer name/ID for DMs. */
+function loopKey(target: string): string {
+  return /^thread:/i.test(target) ? `thread:${target.slice("thread:".length)}` : target.toLowerCase();
+}
+
+function getLoopTrack(accountId: string, key: string): LoopTrack {
+  let tracks = loopTracks.get(accountId);
+  if (!tracks) {
+    tracks = new Map();
+    loopTracks.set(accountId, tracks);
+  }
+  let track = tracks.get(key);
+  if (!track) {
+    track = { inbound: [], outbound: [], pausedUntil: 0 };
+    tracks.set(key, track);
+  }
+  return track;
+}
+
+function pruneLoopTrack(track: LoopTrack, windowMs: number, now: number): void {
+  track.inbound = track.inbound.filter((t) => now - t < windowMs);
+  track.outbound = track.outbound.filter((t) => now - t < windowMs);
+}
+
+/**
+ * Record an inbound turn for a conversation and decide whether to deliver it.
+ * Human-authored messages reset the history and lift any pause. Returns
+ * "tripped" exactly once when the round-trip threshold is crossed.
+ */
+function recordInboundTurn(
+  accountId: string,
+  acct: HxaAccountConfig,
+  target: string,
+  fromHuman: boolean,
+  now: number = Date.now(),
+): LoopVerdict {
+  const cfg = acct.loopGuard;
+  if (cfg?.enabled === false) return "ok";
+  const track = getLoopTrack(accountId, loopKey(target));
+  if (fromHuman) {
+    track.inbound = [];
+    track.outbound = [];
+    track.pausedUntil = 0;
+    return "ok";
+  }
+  if (track.pausedUntil > now) return "paused";
+
+  const windowMs = (cfg?.windowSeconds ?? DEFAULT_LOOP_WINDOW_SEC) * 1000;
+  const maxTurns = cfg?.maxTurns ?? DEFAULT_LOOP_MAX_TURNS;
+  pruneLoopTrack(track, windowMs, now);
+  track.inbound.push(now);
+  if (track.inbound.length >= maxTurns && track.outbound.length >= maxTurns) {
+    track.pausedUntil = now + (cfg?.pauseSeconds ?? DEFAULT_LOOP_PAUSE_SEC) * 1000;
+    track.inbound = [];
+    track.outbound = [];
+    return "tripped";
+  }
+  return "ok";
+}
+
+/** Record one of our sends to a conversation. */
+function recordOutboundTurn(accountId: string, acct: HxaAccountConfig, target: string, now: number = Date.now()): void {
+  if (acct.loopGuard?.enabled === false) return;
+  const track = getLoopTrack(accountId, loopKey(target));
+  pruneLoopTrack(track, (acct.loopGuard?.windowSeconds ?? DEFAULT_LOOP_WINDOW_SEC) * 1000, now);
+  track.outbound.push(now);
+}
+
+/** Returns the pause expiry (ms) when outbound to this conversation is paused, else 0. */
+function loopPausedUntil(accountId: string, acct: HxaAccountConfig, target: string, now: number = Date.now()): number {
+  if (acct.loopGuard?.enabled === false) return 0;
+  const until = loopTracks.get(accountId)?.get(loopKey(target))?.pausedUntil ?? 0;
+  return until > now ? until : 0;
+}
+
+/** Reject agent-initiated sends into a paused conversation; otherwise count the turn. */
+function guardLoopOutbound(accountId: string, acct: HxaAccountConfig, target: string): void {
+  const until = loopPausedUntil(accountId, acct, target);
+  if (until) {
+    throw new Error(
+      `HXA-Connect loop guard: conversation with ${target} is paused until ${new Date(until).toISOString()} (runaway bot-to-bot exchange)`,
+    );
+  }
+  recordOutboundTurn(accountId, acct, target);
+}
+
+/** Parse message metadata that may arrive as a JSON string. */
+function parseMetadata(metadata: any): any {
+  if (typeof metadata !== "string") return metadata;
+  try { return JSON.parse(metadata); } catch { return null; }
+}
+
+function isHumanAuthored(metadata: any): boolean {
+  return parseMetadata(metadata)?.provenance?.authored_by === "human";
+}
+
+// ─── Inbound Rate Limiting ───────────────────────────────────
+
+type RateScope = "sender" | "thread" | "account";
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RateLimitStats {
+  allowed: number;
+  dropped: number;
+  coalesced: number;
+  deferred: number;
+  noticesSent: number;
+  limitedBySender: Map<string, number>; // peer-chosen names, so not a plain object
+}
+
+/** Messages held back for one conversation until the buckets refill. */
+interface PendingInbound {
+  messages: InboundParams[];
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Older messages dropped from a full coalesce queue since its last delivery */
+  dropped: number;
+}
+
+const RATE_LIMIT_DEFAULTS: Record<RateScope, number> = { sender: 20, thread: 30, account: 120 };
+const RATE_NOTICE_COOLDOWN_MS = 10 * 60 * 1000;
+const MAX_HELD_PER_CONVERSATION = 50;
+const MAX_LIMITED_SENDERS_TRACKED = 50;
+
+const rateBuckets = new Map<string, Map<string, TokenBucket>>();
+const rateStats = new Map<string, RateLimitStats>();
+const rateNotices = new Map<string, number>(); // `${accountId}:${sender}` → last notice (ms)
+const pendingInbound = new Map<string, Map<string, PendingInbound>>();
+
+function getRateStats(accountId: string): RateLimitStats {
+  let stats = rateStats.get(accountId);
+  if (!stats) {
+    stats = { allowed: 0, dropped: 0, coalesced: 0, deferred: 0, noticesSent: 0, limitedBySender: new Map() };
+    rateStats.set(accountId, stats);
+  }
+  return stats;
+}
+
+function bucketConfig(acct: HxaAccountConfig, scope: RateScope): { perMinute: number; burst: number } {
+  const cfg = scope === "sender" ? acct.rateLimit?.perSender
+    : scope === "thread" ? acct.rateLimit?.perThread
+    : acct.rateLimit?.perAccount;
+  const perMinute = cfg?.perMinute ?? RATE_LIMIT_DEFAULTS[scope];
+  return { perMinute, burst: cfg?.burst ?? perMinute };
+}
+
+/**
+ * Take one token from each applicable bucket (sender, thread, account), or
+ * none if any is empty. On refusal, reports the limiting scope and how long
+ * until a token is available.
+ */
+function acquireInboundTokens(
+  accountId: string,
+  acct: HxaAccountConfig,
+  senderId: string,
+  threadId: string | undefined,
+  now: number = Date.now(),
+): { ok: true } | { ok: false; scope: RateScope; waitMs: number } {
+  let buckets = rateBuckets.get(accountId);
+  if (!buckets) {
+    buckets = new Map();
+    rateBuckets.set(accountId, buckets);
+  }
+  const scopes: [RateScope, string][] = [["sender", `sender:${senderId.toLowerCase()}`], ["account", "account"]];
+  if (threadId) scopes.splice(1, 0, ["thread", `thread:${threadId}`]);
+
+  const entries = scopes.map(([scope, key]) => {
+    const { perMinute, burst } = bucketConfig(acct, scope);
+    const bucket = buckets!.get(key) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60_000);
+    bucket.updatedAt = now;
+    buckets!.set(key, bucket);
+    return { scope, bucket, perMinute };
+  });
+  const empty = entries.find((e) => e.bucket.tokens < 1);
+  if (empty) {
+    const waitMs = Math.ceil(((1 - empty.bucket.tokens) * 60_000) / Math.max(empty.perMinute, 0.001));
+    return { ok: false, scope: empty.scope, waitMs };
+  }
+  for (const e of entries) e.bucket.tokens -= 1;
+
+  // Drop idle buckets that have refilled completely
+  if (buckets.size > 1000) {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt > 60 * 60 * 1000) buckets.delete(key);
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * Tell the limited party (once per cooldown): the sender by DM for a sender
+ * limit, the thread for a thread limit. An account-wide limit isn't any one
+ * peer's doing, so nobody is told.
+ */
+function sendRateLimitNotice(params: InboundParams, acct: HxaAccountConfig, scope: RateScope): void {
+  if (acct.rateLimit?.notify !== true || scope === "account") return;
+  const key = scope === "sender"
+    ? `${params.accountId}:${params.senderId.toLowerCase()}`
+    : `${params.accountId}:${params.replyTarget}`;
+  const last = rateNotices.get(key) ?? 0;
+  if (Date.now() - last < RATE_NOTICE_COOLDOWN_MS) return;
+  rateNotices.set(key, Date.now());
+  getRateStats(params.accountId).noticesSent++;
+
+  const overflow = acct.rateLimit?.overflow ?? "coalesce";
+  const effect = overflow === "drop" ? "dropped" : overflow === "coalesce" ? "batched together" : "delayed";
+  const text = `⏳ Rate limit: I'm receiving too many messages ${scope === "sender" ? "from you" : "in this thread"}; further messages are being ${effect}.`;
+  const send = scope === "thread"
+    ? sendToThread(acct, params.replyTarget.slice("thread:".length), text)
+    : sendDM(acct, params.senderName, text);
+  send.catch((err: any) => console.warn(`[hxa-connect:${params.accountId}] rate limit notice failed: ${err.message}`));
+}
+
+/** Combine held-back messages of one conversation into a single delivery. */
+function coalesceInbound(messages: InboundParams[], dropped = 0): InboundParams {
+  const last = messages[messages.length - 1];
+  if (messages.length === 1 && !dropped) return last;
+  const body = messages.map((m) => m.content).join("\n\n---\n\n");
+  const droppedNote = dropped ? ` ${dropped} older message(s) were dropped because the queue was full.` : "";
+  return {
+    ...last,
+    content:
+      `<rate-limited>\n${messages.length} messages were batched into one delivery because of inbound rate limits.${droppedNote}\n` +
+      `</rate-limited>\n\n${body}`,
+    fromHuman: messages.some((m) => m.fromHuman),
+  };
+}
+
+function schedulePendingInbound(accountId: string, key: string, pending: PendingInbound, waitMs: number): void {
+  if (pending.timer) return;
+  pending.timer = setTimeout(() => {
+    pending.timer = null;
+    drainPendingInbound(accountId, key).catch((err: any) => {
+      console.error(`[hxa-connect:${accountId}] rate-limited delivery failed: ${err.message}`);
+    });
+  }, Math.max(waitMs, 100));
+  pending.timer.unref?.();
+}
+
+async function drainPendingInbound(accountId: string, key: string): Promise<void> {
+  const pending = pendingInbound.get(accountId)?.get(key);
+  if (!pending?.messages.length) return;
+  const first = pending.messages[0];
+  const acct = resolveAccountConfig(first.cfg, accountId);
+  const threadId = first.replyTarget.startsWith("thread:") ? first.replyTarget.slice("thread:".length) : undefined;
+  const verdict = acquireInboundTokens(accountId, acct, first.senderId, threadId);
+  if (!verdict.ok) {
+    schedulePendingInbound(accountId, key, pending, verdict.waitMs);
+    return;
+  }
+  const batch = (acct.rateLimit?.overflow ?? "coalesce") === "coalesce"
+    ? pending.messages.splice(0)
+    : pending.messages.splice(0, 1);
+  const dropped = pending.dropped;
+  pending.dropped = 0;
+  if (!pending.messages.length) pendingInbound.get(accountId)?.delete(key);
+  else schedulePendingInbound(accountId, key, pending, 0);
+  await dispatchInbound({ ...coalesceInbound(batch, dropped), rateLimited: true });
+}
+
+/**
+ * Apply inbound rate limits. Returns true when the message may be dispatched
+ * now; otherwise it was dropped or held back for a later (batched) delivery.
+ */
+function admitInbound(params: InboundParams, acct: HxaAccountConfig): boolean {
+  const { accountId, replyTarget } = params;
+  if (acct.rateLimit?.enabled !== true) return true;
+  const stats = getRateStats(accountId);
+  const key = replyTarget.toLowerCase().startsWith("thread:") ? replyTarget : replyTarget.toLowerCase();
+  const pending = pendingInbound.get(accountId)?.get(key);
+  const threadId = replyTarget.startsWith("thread:") ? replyTarget.slice("thread:".length) : undefined;
+
+  // Keep ordering: once a conversation has held-back messages, later ones queue behind them
+  const verdict = pending?.messages.length
+    ? { ok: false as const, scope: "sender" as RateScope, waitMs: 0 }
+    : acquireInboundTokens(accountId, acct, params.senderId, threadId);
+  if (verdict.ok) {
+    stats.allowed++;
+    return true;
+  }
+
+  const overflow = acct.rateLimit?.overflow ?? "coalesce";
+  const limited = stats.limitedBySender;
+  if (limited.has(params.senderName) || limited.size < MAX_LIMITED_SENDERS_TRACKED) {
+    limited.set(params.senderName, (limited.get(params.senderName) ?? 0) + 1);
+  }
+  if (!pending?.messages.length) {
+    console.warn(`[hxa-connect:${accountId}] rate limit (${verdict.scope}) hit by ${params.senderName} in ${replyTarget} — ${overflow}`);
+    sendRateLimitNotice(params, acct, verdict.scope);
+  }
+
+  if (overflow === "drop") {
+    stats.dropped++;
+    return false;
+  }
+  let conversations = pendingInbound.get(accountId);
+  if (!conversations) {
+    conversations = new Map();
+    pendingInbound.set(accountId, conversations);
+  }
+  const entry = pending ?? { messages: [], timer: null, dropped: 0 };
+  conversations.set(key, entry);
+  if (entry.messages.length >= MAX_HELD_PER_CONVERSATION) {
+    stats.dropped++;
+    if (overflow === "defer") return false;
+    // A coalesced batch keeps the newest messages; the header reports the rest
+    entry.messages.shift();
+    entry.dropped++;
+  }
+  entry.messages.push(params);
+  if (overflow === "coalesce") stats.coalesced++;
+  else stats.deferred++;
+  schedulePendingInbound(accountId, key, entry, verdict.waitMs);
+  return false;
+}
+
+/** Drop held-back messages and timers for an account (on stop). */
+function clearPendingInbound(accountId: string): void {
+  for (const pending of pendingInbound.get(accountId)?.values() ?? []) {
+    if (pending.timer) clearTimeout(pending.timer);
+  }
+  pendingInbound.delete(accountId);
+}
+
+function getRateLimitStats(accountId: string): Record<string, any> {
+  const stats = getRateStats(accountId);
+  const pending = [...(pendingInbound.get(accountId)?.entries() ?? [])]
+    .map(([conversation, p]) => ({ conversation, messages: p.messages.length }));
+  return { accountId, ...stats, limitedBySender: Object.fromEntries(stats.limitedBySender), pending };
+}
+
+// ─── Inbound Debounce ────────────────────────────────────────
+
+/**
+ * Peers often split one request over several quick messages. With a debounce
+ * window, consecutive messages from the same sender in one conversation are
+ * held until the sender goes quiet and then delivered together.
+ */
+interface DebounceBatch {
+  items: any[];
+  firstAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  flush: (items: any[]) => void;
+}
+
+/** One held-back thread message with its formatted attachments. */
+interface DebouncedThreadMessage {
+  message: any;
+  attachments: string;
+  mention: boolean;
+  snapshot?: any;
+}
+
+const DEFAULT_DEBOUNCE_MAX_WAIT_MS = 10_000;
+const DEFAULT_DEBOUNCE_MAX_MESSAGES = 10;
+
+const debounceBatches = new Map<string, Map<string, DebounceBatch>>();
+
+/** Debounce window for DMs, or for a smart-mode thread (per-thread override first). */
+function resolveDebounceMs(acct: HxaAccountConfig | undefined, threadId?: string): number {
+  if (!threadId) return Math.max(0, acct?.debounce?.dmMs ?? 0);
+  return Math.max(0, acct?.access?.threads?.[threadId]?.debounceMs ?? acct?.debounce?.threadMs ?? 0);
+}
+
+function releaseDebounceBatch(accountId: string, key: string): void {
+  const batches = debounceBatches.get(accountId);
+  const batch = batches?.get(key);
+  if (!batch) return;
+  if (batch.timer) clearTimeout(batch.timer);
+  batches!.delete(key);
+  try {
+    batch.flush(batch.items);
+  } catch (err: any) {
+    console.error(`[hxa-connect:${accountId}] debounced delivery failed: ${err.message}`);
+  }
+}
+
+/**
+ * Hold an inbound item until no further item arrives under the same key for
+ * `windowMs`, then flush all held items at once (in arrival order). A batch
+ * is flushed early once it reaches `maxMessages` or `maxWaitMs`. The flush
+ * callback of the latest item is used.
+ */
+function debounceInbound<T>(
+  accountId: string,
+  key: string,
+  acct: HxaAccountConfig | undefined,
+  windowMs: number,
+  item: T,
+  flush: (items: T[]) => void,
+): void {
+  let batches = debounceBatches.get(accountId);
+  if (!batches) {
+    batches = new Map();
+    debounceBatches.set(accountId, batches);
+  }
+  const now = Date.now();
+  const batch: DebounceBatch = batches.get(key) ?? { items: [], firstAt: now, timer: null, flush: flush as (items: any[]) => void };
+  batches.set(key, batch);
+  batch.items.push(item);
+  batch.flush = flush as (items: any[]) => void;
+  if (batch.timer) clearTimeout(batch.timer);
+  batch.timer = null;
+
+  const maxMessages = acct?.debounce?.maxMessages ?? DEFAULT_DEBOUNCE_MAX_MESSAGES;
+  const maxWaitMs = acct?.debounce?.maxWaitMs ?? DEFAULT_DEBOUNCE_MAX_WAIT_MS;
+  const delay = Math.min(windowMs, batch.firstAt + maxWaitMs - now);
+  if (batch.items.length >= maxMessages || delay <= 0) {
+    releaseDebounceBatch(accountId, key);
+    return;
+  }
+  batch.timer = setTimeout(() => releaseDebounceBatch(accountId, key), delay);
+  batch.timer.unref?.();
+}
+
+/** Deliver everything still held back for an account (on stop). */
+function flushInboundDebounce(accountId: string): void {
+  for (const key of [...(debounceBatches.get(accountId)?.keys() ?? [])]) {
+    releaseDebounceBatch(accountId, key);
+  }
+}
+
+/** Merge a burst of DMs into one delivery; content already carries each message's attachments. */
+function mergeDebouncedInbound(items: InboundParams[]): InboundParams {
+  const last = items[items.length - 1];
+  if (items.length === 1) return last;
+  return {
+    ...last,
+    content: items.map((p) => p.content).join("\n"),
+    fromHuman: items.some((p) => p.fromHuman),
+  };
+}
+
+/** Merge a burst of thread messages into one trigger message, keeping each message's attachments in place. */
+function mergeDebouncedThreadMessages(items: DebouncedThreadMessage[]): DebouncedThreadMessage {
+  const last = items[items.length - 1];
+  if (items.length === 1) return last;
+  return {
+    message: { ...last.message, content: items.map((it) => (it.message.content || "") + it.attachments).join("\n") },
+    attachments: "",
+    mention: items.some((it) => it.mention),
+    snapshot: last.snapshot,
+  };
+}
+
+// ─── Durable Outbox ──────────────────────────────────────────
+
+interface OutboxEntry {
+  id: string;
+  replyTarget: string; // bot name for DM, "thread:<id>" for threads
+  text: string;
+  replyTo?: string;
+  parts?: any[];
+  contentType?: OutboundContentType;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+interface AccountOutbox {
+  acct: HxaAccountConfig;
+  log: any;
+  pending: OutboxEntry[];
+  deadLetters: OutboxEntry[];
+  timer: ReturnType<typeof setTimeout> | null;
+  flushing: boolean;
+}
+
+const OUTBOX_BASE_DELAY_MS = 5000;
+const OUTBOX_MAX_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_OUTBOX_MAX_ATTEMPTS = 10;
+const DEFAULT_OUTBOX_MAX_QUEUE = 500;
+const MAX_DEAD_LETTERS = 100;
+
+const outboxes = new Map<string, AccountOutbox>();
+
+/** Network failures, timeouts, 429 and 5xx are worth retrying; other 4xx are not. */
+function isRetryableSendError(err: any): boolean {
+  const status = err?.status;
+  if (typeof status !== "number") return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function outboxBackoffMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_DELAY_MS);
+}
+
+async function sendOutboxEntry(
+  acct: HxaAccountConfig,
+  entry: Pick<OutboxEntry, "replyTarget" | "text" | "replyTo" | "parts" | "contentType">,
+): Promise<{ ok: boolean; messageId?: string }> {
+  if (entry.replyTarget.startsWith("thread:")) {
+    return sendToThread(acct, entry.replyTarget.slice("thread:".length), entry.text, {
+      replyTo: entry.replyTo,
+      parts: entry.parts,
+      contentType: entry.contentType,
+    });
+  }
+  return sendDM(acct, entry.replyTarget, entry.text, { parts: entry.parts, contentType: entry.contentType });
+}
+
+async function persistOutbox(accountId: string, box: AccountOutbox): Promise<void> {
+  try {
+    await writeAccountState(accountId, "outbox", {
+      pending: box.pending,
+      deadLetters: box.deadLetters,
+    });
+  } catch (err: any) {
+    box.log?.warn?.(`[hxa-connect:${accountId}] Failed to persist outbox: ${err.message}`);
+  }
+}
+
+function deadLetter(box: AccountOutbox, entry: OutboxEntry): void {
+  box.deadLetters.push(entry);
+  if (box.deadLetters.length > MAX_DEAD_LETTERS) {
+    box.deadLetters.splice(0, box.deadLetters.length - MAX_DEAD_LETTERS);
+  }
+}
+
+function scheduleOutboxFlush(accountId: string, box: AccountOutbox): void {
+  if (box.timer) clearTimeout(box.timer);
+  box.timer = null;
+  if (box.pending.length === 0) return;
+  const next = Math.min(...box.pending.map((e) => e.nextAttemptAt));
+  box.timer = setTimeout(() => void flushOutbox(accountId), Math.max(0, next - Date.now()));
+  box.timer.unref?.();
+}
+
+/** Load the persisted outbox for an account and resume delivery. */
+async function startOutbox(accountId: string, acct: HxaAccountConfig, log: any): Promise<void> {
+  if (acct.outbox?.enabled === false) return;
+  const saved = await readAccountState<{ pending?: OutboxEntry[]; deadLetters?: OutboxEntry[] }>(
+    accountId,
+    "outbox",
+    {},
+  );
+  const existing = outboxes.get(accountId);
+  if (existing?.timer) clearTimeout(existing.timer);
+  const box: AccountOutbox = {
+    acct,
+    log,
+    pending: Array.isArray(saved.pending) ? saved.pending : [],
+    deadLetters: Array.isArray(saved.deadLetters) ? saved.deadLetters : [],
+    timer: null,
+    flushing: false,
+  };
+  outboxes.set(accountId, box);
+  if (box.pending.length > 0) {
+    log?.info?.(`[hxa-connect:${accountId}] Outbox resumed with ${box.pending.length} pending message(s)`);
+  }
+  scheduleOutboxFlush(accountId, box);
+}
+
+function stopOutbox(accountId: string): void {
+  const box = outboxes.get(accountId);
+  if (box?.timer) clearTimeout(box.timer);
+  outboxes.delete(accountId);
+}
+
+/**
+ * Retry due outbox entries. Only the oldest entry per target is attempted so
+ * per-target ordering is preserved; a failed head blocks the rest of its target.
+ */
+async function flushOutbox(accountId: string): Promise<void> {
+  const box = outboxes.get(accountId);
+  if (!box || box.flushing) return;
+  box.flushing = true;
+  const lp = `[hxa-connect:${accountId}]`;
+  const maxAttempts = box.acct.outbox?.maxAttempts ?? DEFAULT_OUTBOX_MAX_ATTEMPTS;
+  try {
+    const blocked = new Set<string>();
+    for (const entry of [...box.pending]) {
+      if (blocked.has(entry.replyTarget)) continue;
+      if (entry.nextAttemptAt > Date.now()) {
+        blocked.add(entry.replyTarget);
+        continue;
+      }
+      try {
+        await sendOutboxEntry(box.acct, entry);
+        updateAccountHealth(accountId, { lastOutboundAt: Date.now() });
+        box.pending = box.pending.filter((e) => e.id !== entry.id);
+        box.log?.info?.(`${lp} Outbox delivered ${entry.id} to ${entry.replyTarget} after ${entry.attempts} failed attempt(s)`);
+      } catch (err: any) {
+        entry.attempts++;
+        entry.lastError = err?.message || String(err);
+        if (!isRetryableSendError(err) || entry.attempts >= maxAttempts) {
+          box.pending = box.pending.filter((e) => e.id !== entry.id);
+          deadLetter(box, entry);
+          box.log?.error?.(`${lp} Outbox dead-lettered ${entry.id} to ${entry.replyTarget}: ${entry.lastError}`);
+        } else {
+          entry.nextAttemptAt = Date.now() + outboxBackoffMs(entry.attempts);
+          blocked.add(entry.replyTarget);
+        }
+      }
+    }
+    await persistOutbox(accountId, box);
+  } finally {
+    box.flushing = false;
+    scheduleOutboxFlush(accountId, box);
+  }
+}
+
+/**
+ * Send a reply, queueing it in the durable outbox on retryable failure.
+ * Sends to a target that already has queued entries are queued behind them.
+ */
+async function deliverOutbound(
+  accountId: string,
+  acct: HxaAccountConfig,
+  message: Pick<OutboxEntry, "replyTarget" | "text" | "replyTo" | "parts" | "contentType">,
+): Promise<void> {
+  // Split long replies up front so a retry resends only the chunks that failed
+  // (artifact overflow in threads is handled by sendToThread as a whole)
+  const artifactOverflow = acct.outbound?.overflow === "artifact" && message.replyTarget.startsWith("thread:");
+  const chunks = artifactOverflow ? [message.text] : chunkOutboundText(message.text, resolveChunkLimit(acct));
+  if (chunks.length > 1) {
+    const contentType = resolveContentType(acct, message.text, message.contentType);
+    for (const [i, text] of chunks.entries()) {
+      await deliverOutbound(accountId, acct, {
+        ...message,
+        text,
+        contentType,
+        parts: i === chunks.length - 1 ? message.parts : undefined,
+      });
+    }
+    return;
+  }
+
+  const box = outboxes.get(accountId);
+  if (!box) {
+    await sendOutboxEntry(acct, message);
+    updateAccountHealth(accountId, { lastOutboundAt: Date.now() });
+    return;
+  }
+
+  const enqueue = async (attempts: number, lastError?: string) => {
+    const now = Date.now();
+    box.pending.push({
+      id: crypto.randomUUID(),
+      ...message,
+      attempts,
+      createdAt: now,
+      nextAttemptAt: attempts > 0 ? now + outboxBackoffMs(attempts) : now,
+      ...(lastError ? { lastError } : {}),
+    });
+    const maxQueue = acct.outbox?.maxQueueSize ?? DEFAULT_OUTBOX_MAX_QUEUE;
+    while (box.pending.length > maxQueue) {
+      const dropped = box.pending.shift()!;
+      dropped.lastError = "outbox overflow";
+      deadLetter(box, dropped);
+    }
+    await persistOutbox(accountId, box);
+    scheduleOutboxFlush(accountId, box);
+  };
+
+  if (box.pending.some((e) => e.replyTarget === message.replyTarget)) {
+    await enqueue(0);
+    return;
+  }
+
+  try {
+    await sendOutboxEntry(acct, message);
+    updateAccountHealth(accountId, { lastOutboundAt: Date.now() });
+  } catch (err: any) {
+    if (!isRetryableSendError(err)) throw err;
+    box.log?.warn?.(
+      `[hxa-connect:${accountId}] Send to ${message.replyTarget} failed (${err?.status ?? "network"}), queued for retry`,
+    );
+    await enqueue(1, err?.message || String(err));
+  }
+}
+
+/** Summarize outbox depth and dead letters for an account (live or persisted). */
+async function getOutboxStatus(accountId: string): Promise<Record<string, any>> {
+  const box = outboxes.get(accountId);
+  const state = box ?? await readAccountState<{ pending?: OutboxEntry[]; deadLetters?: OutboxEntry[] }>(
+    accountId,
+    "outbox",
+    {},
+  );
+  const pending = state.pending || [];
+  const deadLetters = state.deadLetters || [];
+  const byTarget: Record<string, number> = {};
+  for (const e of pending) byTarget[e.replyTarget] = (byTarget[e.replyTarget] || 0) + 1;
+  const summarize = (e: OutboxEntry) => ({
+    id: e.id,
+    target: e.replyTarget,
+    attempts: e.attempts,
+    createdAt: new Date(e.createdAt).toISOString(),
+    lastError: e.lastError,
+    preview: e.text.slice(0, 80),
+  });
+  return {
+    accountId,
+    active: !!box,
+    pending: pending.length,
+    byTarget,
+    nextAttemptAt: pending.length
+      ? new Date(Math.min(...pending.map((e) => e.nextAttemptAt))).toISOString()
+      : null,
+    deadLetters: deadLetters.length,
+    recentDeadLetters: deadLetters.slice(-20).map(summarize),
+  };
+}
+
+/** Move dead letters back into the pending queue and retry them now. */
+async function retryDeadLetters(accountId: string): Promise<{ accountId: string; requeued: number }> {
+  const box = outboxes.get(accountId);
+  if (!box) throw new Error(`Outbox for account ${accountId} is not running`);
+  const requeued = box.deadLetters.splice(0);
+  const now = Date.now();
+  for (const entry of requeued) {
+    box.pending.push({ ...entry, attempts: 0, nextAttemptAt: now, lastError: undefined });
+  }
+  await persistOutbox(accountId, box);
+  void flushOutbox(accountId);
+  return { accountId, requeued: requeued.length };
+}
+
+// ─── Account Health ──────────────────────────────────────────
+
+type ConnectionState =
+  | "starting"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "webhook-only"
+  | "session-invalidated"
+  | "recovering"
+  | "disconnected"
+  | "misconfigured"
+  | "stopped";
+
+interface AccountHealth {
+  accountId: string;
+  configured: boolean;
+  configWarnings?: string[];
+  running: boolean;
+  connectionState: ConnectionState;
+  connected: boolean;
+  lastConnectedAt: number | null;
+  lastDisconnectedAt: number | null;
+  reconnectAttempts: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastInboundAt: number | null;
+  lastOutboundAt: number | null;
+}
+
+const MAX_TRACKED_THREAD_BUFFERS = 100;
+
+const accountHealth = new Map<string, AccountHealth>();
+/** accountId → gateway ctx.setStatus for the running account task */
+const statusSinks = new Map<string, (status: Record<string, any>) => void>();
+
+function getAccountHealth(accountId: string): AccountHealth {
+  let health = accountHealth.get(accountId);
+  if (!health) {
+    health = {
+      accountId,
+      configured: true,
+      running: false,
+      connectionState: "stopped",
+      connected: false,
+      lastConnectedAt: null,
+      lastDisconnectedAt: null,
+      reconnectAttempts: 0,
+      lastError: null,
+      lastErrorAt: null,
+      lastInboundAt: null,
+      lastOutboundAt: null,
+    };
+    accountHealth.set(accountId, health);
+  }
+  return health;
+}
+
+/** Merge a health update and publish the full snapshot to the gateway. */
+function updateAccountHealth(accountId: string, patch: Partial<AccountHealth>): void {
+  const health = getAccountHealth(accountId);
+  Object.assign(health, patch);
+  if (patch.lastError) health.lastErrorAt = Date.now();
+  if (patch.connectionState) health.connected = patch.connectionState === "connected";
+  try {
+    statusSinks.get(accountId)?.({ ...health, threadBuffers: currentThreadBuffers(accountId) });
+  } catch (err: any) {
+    console.warn(`[hxa-connect:${accountId}] setStatus failed: ${err?.message || err}`);
+  }
+}
+
+/** Messages currently buffered per thread (WebSocket and webhook), most recently active last. */
+function currentThreadBuffers(accountId: string): Record<string, number> {
+  const threads = [...(threadBufferStores.get(accountId)?.threads ?? [])].filter(([, b]) => b.messages.length > 0);
+  return Object.fromEntries(threads.slice(-MAX_TRACKED_THREAD_BUFFERS).map(([id, b]) => [id, b.messages.length]));
+}
+
+/** Health snapshot with readable timestamps plus delivery queue depth, for the agent tool. */
+function describeAccountHealth(accountId: string): Record<string, any> {
+  const health = getAccountHealth(accountId);
+  const iso = (t: number | null) => (t ? new Date(t).toISOString() : null);
+  const box = outboxes.get(accountId);
+  return {
+    ...health,
+    threadBuffers: currentThreadBuffers(accountId),
+    lastConnectedAt: iso(health.lastConnectedAt),
+    lastDisconnectedAt: iso(health.lastDisconnectedAt),
+    lastErrorAt: iso(health.lastErrorAt),
+    lastInboundAt: iso(health.lastInboundAt),
+    lastOutboundAt: iso(health.lastOutboundAt),
+    outbox: box ? { pending: box.pending.length, deadLetters: box.deadLetters.length } : null,
+  };
+}
+
+// ─── Peer Presence ───────────────────────────────────────────
+
+interface PeerPresence {
+  name: string;
+  id?: string;
+  online: boolean;
+  lastSeenAt?: number;
+  updatedAt: number;
+}
+
+interface PresenceDirectory {
+  peers: Map<string, PeerPresence>; // lowercased name → presence
+  refreshedAt?: number;
+  refreshTimer: ReturnType<typeof setInterval> | null;
+  persistTimer: ReturnType<typeof setTimeout> | null;
+  loaded: boolean;
+}
+
+const DEFAULT_PRESENCE_REFRESH_SEC = 300;
+const PRESENCE_PERSIST_DELAY_MS = 10_000;
+const MAX_PRESENCE_PEERS = 2000;
+
+const presenceDirectories = new Map<string, PresenceDirectory>();
+
+function getPresenceDirectory(accountId: string): PresenceDirectory {
+  let dir = presenceDirectories.get(accountId);
+  if (!dir) {
+    dir = { peers: new Map(), refreshTimer: null, persistTimer: null, loaded: false };
+    presenceDirectories.set(accountId, dir);
+  }
+  return dir;
+}
+
+function schedulePresencePersist(accountId: string, dir: PresenceDirectory): void {
+  const acct = runningAccounts.get(accountId)?.acct;
+  if (!acct?.presence?.persist || dir.persistTimer) return;
+  dir.persistTimer = setTimeout(() => {
+    dir.persistTimer = null;
+    writeAccountState(accountId, "presence", { peers: [...dir.peers.values()], refreshedAt: dir.refreshedAt })
+      .catch((err: any) => console.warn(`[hxa-connect:${accountId}] Failed to persist presence: ${err.message}`));
+  }, PRESENCE_PERSIST_DELAY_MS);
+  dir.persistTimer.unref?.();
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  const ms = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+/** Record a peer's presence from a bot_online/bot_offline event or a peer list entry. */
+function recordPresence(accountId: string, bot: any, online: boolean, lastSeenAt?: number): void {
+  const name = bot?.name ?? bot?.bot_name;
+  if (!name) return;
+  const dir = getPresenceDirectory(accountId);
+  const key = String(name).toLowerCase();
+  const prev = dir.peers.get(key);
+  dir.peers.delete(key);
+  dir.peers.set(key, {
+    name: String(name),
+    id: bot.id ?? bot.bot_id ?? prev?.id,
+    online,
+    lastSeenAt: lastSeenAt ?? (online ? Date.now() : prev?.lastSeenAt),
+    updatedAt: Date.now(),
+  });
+  if (dir.peers.size > MAX_PRESENCE_PEERS) dir.peers.delete(dir.peers.keys().next().value!);
+  schedulePresencePersist(accountId, dir);
+}
+
+/** Feed a `listPeers` result into the directory. */
+function applyPeerList(accountId: string, result: any): void {
+  const peers: any[] = Array.isArray(result) ? result : (result?.peers || result?.bots || []);
+  for (const peer of peers) {
+    const online = typeof peer.online === "boolean" ? peer.online : peer.status === "online";
+    recordPresence(accountId, peer, online, parseTimestamp(peer.last_seen_at ?? peer.last_seen) ?? (online ? Date.now() : undefined));
+  }
+  getPresenceDirectory(accountId).refreshedAt = Date.now();
+}
+
+async function refreshPresence(accountId: string, client: any): Promise<void> {
+  applyPeerList(accountId, await client.listPeers());
+}
+
+/** Restore a persisted directory (when `presence.persist` is on). */
+async function loadPresence(accountId: string, acct: HxaAccountConfig): Promise<void> {
+  const dir = getPresenceDirectory(accountId);
+  if (dir.loaded || !acct.presence?.persist) return;
+  dir.loaded = true;
+  const saved = await readAccountState<{ peers?: PeerPresence[]; refreshedAt?: number }>(accountId, "presence", {});
+  for (const peer of Array.isArray(saved.peers) ? saved.peers : []) {
+    const key = peer.name?.toLowerCase();
+    if (key && !dir.peers.has(key)) dir.peers.set(key, peer);
+  }
+  dir.refreshedAt ??= saved.refreshedAt;
+}
+
+/** Refresh the peer list periodically while the WebSocket client is up. */
+function startPresenceRefresh(accountId: string, acct: HxaAccountConfig, client: any, log: any): void {
+  stopPresenceRefresh(accountId);
+  if (acct.presence?.enabled === false) return;
+  const seconds = acct.presence?.refreshSeconds ?? DEFAULT_PRESENCE_REFRESH_SEC;
+  const refresh = () => refreshPresence(accountId, client)
+    .catch((err: any) => log?.warn?.(`[hxa-connect:${accountId}] Presence refresh failed: ${err.message}`));
+  void refresh();
+  if (seconds <= 0) return;
+  const dir = getPresenceDirectory(accountId);
+  dir.refreshTimer = setInterval(refresh, seconds * 1000);
+  dir.refreshTimer.unref?.();
+}
+
+function stopPresenceRefresh(accountId: string): void {
+  const dir = presenceDirectories.get(accountId);
+  if (dir?.refreshTimer) clearInterval(dir.refreshTimer);
+  if (dir) dir.refreshTimer = null;
+}
+
+function lookupPeer(accountId: string, nameOrId: string): PeerPresence | undefined {
+  const dir = presenceDirectories.get(accountId);
+  if (!dir) return undefined;
+  const byName = dir.peers.get(nameOrId.toLowerCase());
+  if (byName) return byName;
+  for (const peer of dir.peers.values()) if (peer.id === nameOrId) return peer;
+  return undefined;
+}
+
+function formatAgo(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} minute(s) ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour(s) ago`;
+  return `${Math.round(hours / 24)} day(s) ago`;
+}
+
+/** `<peer-status>` hint for a DM target the directory knows to be offline. */
+function peerStatusHint(accountId: string, acct: HxaAccountConfig, target: string): string | undefined {
+  if (acct.presence?.enabled === false || acct.presence?.hint === false) return undefined;
+  if (/^(thread|channel):/i.test(target)) return undefined;
+  const peer = lookupPeer(accountId, target);
+  if (!peer || peer.online) return undefined;
+  const seen = peer.lastSeenAt ? `last seen ${formatAgo(Date.now() - peer.lastSeenAt)}` : "last seen unknown";
+  return `<peer-status>\n${peer.name} is offline (${seen}). The message is delivered, but a reply may not come until it reconnects.\n</peer-status>`;
+}
+
+function describePresence(accountId: string, name?: string): Record<string, any> {
+  const dir = presenceDirectories.get(accountId);
+  const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+  const view = (p: PeerPresence) => ({ name: p.name, id: p.id, online: p.online, lastSeenAt: iso(p.lastSeenAt) });
+  if (name) {
+    const peer = lookupPeer(accountId, name);
+    return { accountId, peer: peer ? view(peer) : null };
+  }
+  const peers = [...(dir?.peers.values() ?? [])].sort((a, b) => Number(b.online) - Number(a.online) || a.name.localeCompare(b.name));
+  return {
+    accountId,
+    refreshedAt: iso(dir?.refreshedAt),
+    online: peers.filter((p) => p.online).length,
+    offline: peers.filter((p) => !p.online).length,
+    peers: peers.map(view),
+  };
+}
+
+// ─── WebSocket Connection Manager ────────────────────────────
+
+interface WsConnection {
+  client: any; // HxaConnectClient
+  threadCtx: any; // ThreadContext
+  accountId: string;
+  config: HxaAccountConfig;
+  disconnect: () => void;
+  /** Swap a re-read config into the live handlers (not connection-level fields) */
+  reload: (acct: HxaAccountConfig, cfg: any) => void;
+}
+
+const wsConnections = new Map<string, WsConnection>();
+
+// ─── Attachment Formatting ────────────────────────────────────
+
+function formatBytes(bytes: unknown): string {
+  if (typeof bytes !== "number" || !Number.isFinite(bytes) || bytes < 0) return "?B";
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1048576).toFixed(1)}MB`;
+}
+
+// Format non-text message parts (image, file, link) as inline references.
+// Text/markdown parts are already captured via msg.content; json parts are
+// complex objects not suitable for inline display — both are skipped here.
+const MAX_ATTACHMENT_PARTS = 20;
+
+function formatAttachments(parts: any[] | undefined | null, localPaths?: Record<string, string>): string {
+  if (!parts || !parts.length) return "";
+  const refs: string[] = [];
+  let truncated = 0;
+  for (const part of parts) {
+    if (refs.length >= MAX_ATTACHMENT_PARTS) {
+      // Only count parts that would have produced a ref
+      if (part.type === "image" || part.type === "file" || part.type === "link"
+          || (part.type && part.url)) {
+        truncated++;
+      }
+      continue;
+    }
+    switch (part.type) {
+      case "image": {
+        if (!part.url) break;
+        const loc = localPaths?.[part.url];
         refs.push(part.alt
           ? `[image: ${part.alt} — ${loc || part.url}]`
           : `[image: ${loc || part.url}]`);
@@ -567,6 +2908,173 @@ async function downloadMediaParts(
   return localPaths;
 }
 
+// ─── Media Upload ───────────────────────────────────────────
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MB, matches the download limit
+
+const EXT_TO_MIME: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(MIME_TO_EXT).map(([mime, ext]) => [ext, mime])),
+  ".jpeg": "image/jpeg",
+  ".svg": "image/svg+xml",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".zip": "application/zip",
+};
+
+/** Read a response body, cancelling the download once it grows past `limit` bytes. */
+async function readLimitedBody(resp: Response, limit: number): Promise<Buffer> {
+  const reader = resp.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel().catch(() => {});
+      throw new Error(`Media too large: over ${formatBytes(limit)}`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Load outbound media from a local path, file:// URL or http(s) URL. */
+async function loadOutboundMedia(
+  mediaUrl: string,
+): Promise<{ buffer: Buffer; name: string; mimeType: string }> {
+  if (/^https?:\/\//i.test(mediaUrl)) {
+    const resp = await fetch(mediaUrl, { signal: AbortSignal.timeout(30_000) });
+    if (!resp.ok) throw new Error(`Media fetch failed: ${resp.status} ${mediaUrl}`);
+    const declared = parseInt(resp.headers.get("Content-Length") || "", 10);
+    if (declared > MAX_UPLOAD_BYTES) throw new Error(`Media too large: ${formatBytes(declared)}`);
+    // Content-Length may be missing (chunked), so the limit is enforced while reading
+    const buffer = await readLimitedBody(resp, MAX_UPLOAD_BYTES);
+    let name = path.basename(new URL(mediaUrl).pathname);
+    try {
+      name = decodeURIComponent(name);
+    } catch {
+      // Malformed escape (e.g. "a%E0%A4.png"): keep the name as it appears in the URL
+    }
+    name ||= "attachment";
+    const headerType = (resp.headers.get("Content-Type") || "").split(";")[0].trim();
+    const mimeType = headerType && headerType !== "application/octet-stream"
+      ? headerType
+      : EXT_TO_MIME[path.extname(name).toLowerCase()] || "application/octet-stream";
+    return { buffer, name, mimeType };
+  }
+
+  const localPath = mediaUrl.startsWith("file://") ? fileURLToPath(mediaUrl) : mediaUrl;
+  const stat = await fs.promises.stat(localPath);
+  if (!stat.isFile()) throw new Error(`Media path is not a file: ${localPath}`);
+  if (stat.size > MAX_UPLOAD_BYTES) throw new Error(`Media too large: ${formatBytes(stat.size)}`);
+  const buffer = await fs.promises.readFile(localPath);
+  const name = path.basename(localPath);
+  return { buffer, name, mimeType: EXT_TO_MIME[path.extname(name).toLowerCase()] || "application/octet-stream" };
+}
+
+/** Upload a file to the Hub file store. Returns the Hub-internal file URL. */
+async function uploadFile(
+  acct: HxaAccountConfig,
+  media: { buffer: Buffer; name: string; mimeType: string },
+): Promise<{ id: string; url: string }> {
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(media.buffer)], { type: media.mimeType }), media.name);
+  const resp = await hubFetch(acct, "/api/files/upload", { method: "POST", body: form });
+  const result = (await resp.json()) as any;
+  const file = result?.file ?? result;
+  if (!file?.id) throw new Error("HXA-Connect file upload returned no file id");
+  return { id: file.id, url: file.url || `/api/files/${file.id}` };
+}
+
+/**
+ * Turn an outbound media reference into a message part.
+ * Hub-internal URLs are referenced directly; everything else is uploaded first.
+ */
+async function buildMediaPart(acct: HxaAccountConfig, mediaUrl: string): Promise<Record<string, any>> {
+  if (HUB_FILE_RE.test(mediaUrl)) {
+    return { type: "file", url: mediaUrl, name: path.basename(mediaUrl.split(/[?#]/)[0]) };
+  }
+  const media = await loadOutboundMedia(mediaUrl);
+  const uploaded = await uploadFile(acct, media);
+  return {
+    type: media.mimeType.startsWith("image/") ? "image" : "file",
+    url: uploaded.url,
+    name: media.name,
+    mime_type: media.mimeType,
+    size: media.buffer.length,
+  };
+}
+
+/**
+ * Media as an uploaded image/file part. Remote media that fails to upload is
+ * shared as a `link` part instead; a local path is useless to peers, so that
+ * failure is rethrown.
+ */
+async function buildMediaPartOrLink(
+  acct: HxaAccountConfig,
+  mediaUrl: string,
+): Promise<{ part: Record<string, any>; linked: boolean }> {
+  try {
+    return { part: await buildMediaPart(acct, mediaUrl), linked: false };
+  } catch (err: any) {
+    if (!/^https?:\/\//i.test(mediaUrl)) throw err;
+    console.warn(`[hxa-connect] media upload failed for ${mediaUrl}, sending as link: ${err.message}`);
+    return { part: { type: "link", url: mediaUrl }, linked: true };
+  }
+}
+
+const OUTBOUND_PART_TYPES = new Set(["text", "markdown", "json", "link", "image", "file"]);
+const MAX_LINK_PREVIEWS = 3;
+
+/** Keep well-formed structured parts supplied by the agent; drop anything the hub can't render. */
+function normalizeOutboundParts(parts: unknown): any[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.filter((p: any) => {
+    if (!p || typeof p !== "object" || !OUTBOUND_PART_TYPES.has(p.type)) return false;
+    if (p.type === "text" || p.type === "markdown") return typeof p.content === "string";
+    if (p.type === "json") return p.content !== undefined;
+    return typeof p.url === "string" && p.url.length > 0;
+  });
+}
+
+/**
+ * Structured parts for an agent reply: uploaded media (`mediaUrl` /
+ * `mediaUrls`), parts passed through `channelData["hxa-connect"].parts`
+ * (e.g. `json`), and — with `outbound.linkPreviews` — `link` parts for URLs
+ * in the reply text.
+ */
+async function composeReplyParts(acct: HxaAccountConfig, payload: any, text: string): Promise<any[]> {
+  const parts: any[] = [];
+  if (payload && typeof payload === "object") {
+    const mediaUrls: string[] = [
+      ...(Array.isArray(payload.mediaUrls) ? payload.mediaUrls : []),
+      ...(payload.mediaUrl ? [payload.mediaUrl] : []),
+    ];
+    for (const mediaUrl of new Set(mediaUrls)) {
+      try {
+        parts.push((await buildMediaPartOrLink(acct, mediaUrl)).part);
+      } catch (err: any) {
+        console.warn(`[hxa-connect] reply attachment ${mediaUrl} skipped: ${err.message}`);
+      }
+    }
+    parts.push(...normalizeOutboundParts(payload.channelData?.["hxa-connect"]?.parts));
+  }
+  if (acct.outbound?.linkPreviews) {
+    const seen = new Set(parts.map((p) => p.url).filter(Boolean));
+    let previews = 0;
+    for (const [match] of text.matchAll(/https?:\/\/[^\s<>()[\]"'`]+/g)) {
+      const url = match.replace(/[.,;:!?]+$/, "");
+      if (seen.has(url) || previews >= MAX_LINK_PREVIEWS) continue;
+      seen.add(url);
+      parts.push({ type: "link", url });
+      previews++;
+    }
+  }
+  return parts;
+}
+
 /** Escape &, <, > to prevent tag injection inside XML-structured messages. */
 function escapeXml(s: string): string {
   return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
@@ -585,6 +3093,7 @@ async function connectAccount(
   cfg: any,
   log: any,
   abortSignal?: AbortSignal,
+  onSessionInvalidated?: () => void,
 ) {
   // Guard against duplicate connections
   if (wsConnections.has(accountId)) {
@@ -604,7 +3113,7 @@ async function connectAccount(
     return;
   }
 
-  const dp = displayPrefix(accountId, cfg);
+  let dp = displayPrefix(accountId, cfg);
   const lp = `[hxa-connect:${accountId}]`;
 
   const client = new HxaConnectClient({
@@ -630,18 +3139,46 @@ async function connectAccount(
     if (meta?.provenance?.authored_by === "human") return false;
     return true;
   };
-  const access = acct.access || {};
+  // Re-assigned by reload(), so handlers always see the current access rules
+  let access = acct.access || {};
+
+  // ─── Last-seen tracking (for offline catch-up) ───────────
+  let catchupEnabled = acct.catchup?.enabled !== false;
+  let catchupMaxEvents = acct.catchup?.maxEvents ?? DEFAULT_CATCHUP_MAX_EVENTS;
+  const persisted = await readAccountState<{ lastSeen?: number }>(accountId, "catchup", {});
+  let lastSeen = typeof persisted.lastSeen === "number" ? persisted.lastSeen : 0;
+  let live = false;
+  let catchupRunning = false;
+
+  function touchLastSeen(): void {
+    if (!live || catchupRunning) return;
+    lastSeen = Date.now();
+  }
+
+  async function persistLastSeen(): Promise<void> {
+    if (!lastSeen) return;
+    try {
+      await writeAccountState(accountId, "catchup", { lastSeen });
+    } catch (err: any) {
+      log?.warn?.(`${lp} Failed to persist catch-up marker: ${err.message}`);
+    }
+  }
 
   // ─── DM Handler ──────────────────────────────────────────
   const mediaDir = path.join(getRuntime().dataDir, "media", accountId);
 
-  client.on("message", async (msg: any) => {
+  async function handleDirectMessage(msg: any, source: InboundSource = "websocket"): Promise<void> {
     try {
       const sender = msg.sender_name || "unknown";
       const content = msg.message?.content || msg.content || "";
       if (isSelf(msg.message?.sender_id, msg.message?.metadata)) return;
+      touchLastSeen();
+      if (!claimInboundMessage(accountId, msg.message?.id, source)) {
+        log?.debug?.(`${lp} DM ${msg.message?.id} already dispatched, skipping`);
+        return;
+      }
 
-      if (!isDmAllowed(access, sender)) {
+      if (!isDmAllowed(access, { name: sender, id: msg.message?.sender_id, metadata: msg.message?.metadata })) {
         log?.info?.(`${lp} DM from ${sender} rejected (dmPolicy: ${access.dmPolicy || "open"})`);
         return;
       }
@@ -652,7 +3189,7 @@ async function connectAccount(
       const attachments = formatAttachments(msgParts, localPaths);
 
       log?.info?.(`${lp} DM from ${sender}: ${content.substring(0, 80)}`);
-      dispatchInbound({
+      const params: InboundParams = {
         cfg,
         accountId,
         senderName: sender,
@@ -661,12 +3198,24 @@ async function connectAccount(
         messageId: msg.message?.id,
         chatType: "direct",
         replyTarget: sender,
+        fromHuman: isHumanAuthored(msg.message?.metadata),
         displayPrefix: dp,
-      });
+      };
+      const debounceMs = resolveDebounceMs(acct);
+      if (debounceMs > 0) {
+        debounceInbound(accountId, `dm:${sender.toLowerCase()}`, acct, debounceMs, params,
+          (items) => void dispatchInbound(mergeDebouncedInbound(items)).catch((err: any) => {
+            log?.error?.(`${lp} debounced DM delivery failed: ${err.message}`);
+          }));
+      } else {
+        dispatchInbound(params);
+      }
     } catch (err: any) {
       console.error(`${lp} DM handler error: ${err.message}`);
     }
-  });
+  }
+
+  client.on("message", (msg: any) => handleDirectMessage(msg));
 
   // ─── Thread Handlers ─────────────────────────────────────
   const agentName = acct.agentName || "cococlaw";
@@ -677,106 +3226,99 @@ async function connectAccount(
   });
 
   function getThreadMode(threadId: string): "mention" | "smart" {
-    return access.threads?.[threadId]?.mode || "mention";
-  }
-
-  const mentionRe = new RegExp(
-    `@${agentName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
-    "i",
-  );
-
-  // Extract all searchable text from message (for mention detection).
-  // Includes text/markdown content PLUS alt text, filenames, titles from
-  // non-text parts so @mentions in those fields still trigger delivery.
-  function extractText(msg: any): string {
-    const texts = [msg.content || ""];
-    if (msg.parts) {
-      for (const part of msg.parts) {
-        if ("content" in part && typeof part.content === "string") {
-          texts.push(part.content);
-        }
-        if (part.type === "image" && part.alt) texts.push(part.alt);
-        if (part.type === "file" && part.name) texts.push(part.name);
-        if (part.type === "link" && part.title) texts.push(part.title);
-      }
-    }
-    return texts.join(" ");
+    return access.threads?.[threadId]?.mode === "smart" ? "smart" : "mention";
   }
 
-  /** Display-friendly sender name (human provenance aware). */
-  function msgSender(msg: any): string {
-    const botName = msg.sender_name || msg.sender_id || "unknown";
-    const meta =
-      typeof msg.metadata === "string"
-        ? (() => { try { return JSON.parse(msg.metadata); } catch { return null; } })()
-        : msg.metadata;
-    if (meta?.provenance?.authored_by === "human" && meta.provenance.owner_name) {
-      return `${meta.provenance.owner_name} (via ${botName})`;
-    }
-    return botName;
-  }
+  const mentionRe = buildMentionRe(agentName);
 
-  threadCtx.onMention(async ({ threadId, message, snapshot }: any) => {
+  async function handleThreadMention(
+    { threadId, message, snapshot }: any,
+    source: InboundSource = "websocket",
+  ): Promise<void> {
     try {
       const sender = msgSender(message);
-      const content = message.content || "";
+      touchLastSeen();
 
-      if (!isThreadAllowed(access, threadId)) {
+      const meta = await resolveThreadMeta(accountId, acct, threadId);
+      if (!isThreadAllowed(access, threadId, meta)) {
         log?.info?.(
           `${lp} Thread ${threadId} rejected (groupPolicy: ${access.groupPolicy || "open"})`,
         );
         return;
       }
-      if (!isSenderAllowed(access, threadId, sender)) {
+      const identity = {
+        name: message.sender_name || message.sender_id || "unknown",
+        id: message.sender_id,
+        metadata: message.metadata,
+      };
+      if (!isSenderAllowed(access, threadId, identity, meta)) {
         log?.info?.(`${lp} Sender ${sender} rejected in thread ${threadId}`);
         return;
       }
 
-      const isRealMention = mentionRe.test(extractText(message)) || !!message.mention_all;
+      const isRealMention = isThreadMention(message, mentionRe);
       const threadMode = getThreadMode(threadId);
 
       if (threadMode === "mention" && !isRealMention) {
         return;
       }
+      if (!claimInboundMessage(accountId, message.id, source)) {
+        log?.debug?.(`${lp} Thread message ${message.id} already dispatched, skipping`);
+        return;
+      }
 
       // Download media for trigger message (after policy checks)
       const localPaths = await downloadMediaParts(message.parts, client, mediaDir, lp);
       const attachments = formatAttachments(message.parts, localPaths);
 
-      // Build message with XML tags (consistent with Lark/TG format)
-      const parts: string[] = [`[${dp} Thread:${threadId}] ${sender} said: `];
-
-      // Thread context: previous messages (excluding trigger) — no media download for context
-      const contextMsgs = (snapshot.newMessages || []).filter((m: any) => m.id !== message.id);
-      if (contextMsgs.length > 0) {
-        const lines = contextMsgs.map((m: any) => {
-          const ctxAtt = formatAttachments(m.parts);
-          return `[${escapeXml(msgSender(m))}]: ${escapeXml(m.content || "")}${escapeXml(ctxAtt)}`;
-        });
-        parts.push(`<thread-context>\n${lines.join("\n")}\n</thread-context>\n\n`);
-      }
-
-      // Smart mode hint
-      if (!isRealMention && threadMode === "smart") {
-        parts.push(
-          "<smart-mode>\nDecide whether to respond. Reply with exactly [SKIP] when a response is unnecessary.\n</smart-mode>\n\n",
-        );
+      const item: DebouncedThreadMessage = { message, attachments, mention: isRealMention, snapshot };
+      const debounceMs = threadMode === "smart" ? resolveDebounceMs(acct, threadId) : 0;
+      if (debounceMs > 0) {
+        debounceInbound(accountId, `thread:${threadId}:${message.sender_id || sender}`, acct, debounceMs, item,
+          (items) => void deliverThreadMention(threadId, items));
+      } else {
+        await deliverThreadMention(threadId, [item]);
       }
+    } catch (err: any) {
+      console.error(`${lp} Thread handler error: ${err.message}`);
+    }
+  }
 
-      // Reply-to context (like TG's replying-to format)
-      if (message.reply_to_message) {
-        const reply = message.reply_to_message;
-        const replySender = escapeXml(reply.sender_name || reply.sender_id || "unknown");
-        const replyContent = escapeXml(reply.content || "");
-        const replyAtt = escapeXml(formatAttachments(reply.parts));
-        parts.push(`<replying-to>\n[${replySender}]: ${replyContent}${replyAtt}\n</replying-to>\n\n`);
+  /** Format and dispatch one (possibly debounced) thread delivery. */
+  async function deliverThreadMention(threadId: string, items: DebouncedThreadMessage[]): Promise<void> {
+    try {
+      const { message, attachments, mention: isRealMention, snapshot } = mergeDebouncedThreadMessages(items);
+      const sender = msgSender(message);
+      const threadMode = getThreadMode(threadId);
+      const merged = new Set(items.map((it) => it.message.id));
+
+      const budget = resolveThreadContextConfig(acct, threadId);
+      let contextMsgs = mergeThreadMessages(
+        takeThreadBuffer(accountId, threadId, message),
+        ...items.map((it) => it.snapshot?.newMessages || []),
+      ).filter((m: any) => !merged.has(m.id));
+      const backfilled = needsBackfill(accountId, threadId, budget, contextMsgs, isRealMention);
+      if (backfilled) {
+        try {
+          contextMsgs = await backfillThreadMessages(
+            client, threadId, message.id, contextMsgs, budget.backfillMessages ?? DEFAULT_BACKFILL_MESSAGES,
+          );
+          contextMsgs = contextMsgs.filter((m: any) => !merged.has(m.id));
+        } catch (err: any) {
+          log?.warn?.(`${lp} Thread ${threadId} history backfill failed: ${err.message}`);
+        }
       }
-
-      // Current message (includes non-text attachments with local paths when downloaded)
-      parts.push(`<current-message>\n${escapeXml(content)}${escapeXml(attachments)}\n</current-message>`);
-
-      const formattedContent = parts.join("");
-      log?.info?.(`${lp} Thread ${threadId} from ${sender} (${snapshot.bufferedCount} buffered)`);
+      const formattedContent = formatThreadDelivery({
+        dp,
+        threadId,
+        message,
+        contextMsgs,
+        smartHint: !isRealMention && threadMode === "smart",
+        attachments,
+        budget,
+        threadInfo: await fetchThreadInfo(acct, threadId, backfilled ? { ...budget, includeTopic: true } : budget),
+      });
+      log?.info?.(`${lp} Thread ${threadId} from ${sender} (${snapshot?.bufferedCount} buffered${items.length > 1 ? `, ${items.length} coalesced` : ""})`);
 
       dispatchInbound({
         cfg,
@@ -793,17 +3335,24 @@ async function connectAccount(
           replyToBody: message.reply_to_message.content || "",
           replyToSender: message.reply_to_message.sender_name || message.reply_to_message.sender_id || "unknown",
         } : {}),
+        fromHuman: items.some((it) => isHumanAuthored(it.message.metadata)),
         displayPrefix: dp,
       });
     } catch (err: any) {
       console.error(`${lp} Thread handler error: ${err.message}`);
     }
-  });
+  }
+
+  threadCtx.onMention((event: any) => handleThreadMention(event));
 
   // Buffer thread messages (ThreadContext handles delivery via onMention)
-  client.on("thread_message", (msg: any) => {
+  client.on("thread_message", async (msg: any) => {
     const message = msg.message || {};
     if (isSelf(message.sender_id, message.metadata)) return;
+    touchLastSeen();
+    if (msg.thread_id && isThreadAllowed(access, msg.thread_id, await resolveThreadMeta(accountId, acct, msg.thread_id))) {
+      bufferThreadMessage(accountId, msg.thread_id, message);
+    }
     const sender = message.sender_name || message.sender_id || "unknown";
     const content = message.content || "";
     log?.debug?.(
@@ -812,158 +3361,826 @@ async function connectAccount(
   });
 
   // Thread lifecycle events
-  client.on("thread_created", (msg: any) => {
+  const lifecycleCtx: ThreadLifecycleContext = { cfg, accountId, dp, log };
+  function handleThreadLifecycle(type: ThreadLifecycleType, msg: any): void {
+    touchLastSeen();
+    threadLifecycleHandlers[type](lifecycleCtx, msg);
+  }
+  for (const type of Object.keys(threadLifecycleHandlers) as ThreadLifecycleType[]) {
+    client.on(type, (msg: any) => handleThreadLifecycle(type, msg));
+  }
+
+  // Bot presence
+  client.on("bot_online", (msg: any) => {
+    log?.info?.(`${lp} ${msg.bot?.name || "unknown"} is online`);
+    if (acct.presence?.enabled !== false) recordPresence(accountId, msg.bot, true);
+  });
+  client.on("bot_offline", (msg: any) => {
+    log?.info?.(`${lp} ${msg.bot?.name || "unknown"} is offline`);
+    if (acct.presence?.enabled !== false) recordPresence(accountId, msg.bot, false, Date.now());
+  });
+
+  // ─── Offline Catch-up ────────────────────────────────────
+
+  /**
+   * Replay thread messages missed while offline through the mention pipeline.
+   * Non-triggering messages are accumulated as context for the next trigger,
+   * mirroring what ThreadContext would have buffered live.
+   */
+  async function replayThreadActivity(threadId: string, since: number): Promise<void> {
+    const fetched = await client.getThreadMessages(threadId, { since });
+    const messages: any[] = (Array.isArray(fetched) ? fetched : (fetched?.messages || []))
+      .slice()
+      .sort((a: any, b: any) => (a.created_at || 0) - (b.created_at || 0));
+    let buffered: any[] = [];
+    for (const message of messages) {
+      if (isSelf(message.sender_id, message.metadata)) continue;
+      buffered.push(message);
+      const isRealMention = isThreadMention(message, mentionRe);
+      if (!isRealMention && getThreadMode(threadId) === "mention") continue;
+      await handleThreadMention({
+        threadId,
+        message,
+        snapshot: { newMessages: buffered, bufferedCount: buffered.length },
+      }, "catchup");
+      buffered = [];
+    }
+  }
+
+  async function replayDirectChannel(channelId: string, channelName: string | undefined, since: number): Promise<void> {
+    const messages = await fetchChannelMessagesSince(acct, channelId, since);
+    for (const message of messages) {
+      await handleDirectMessage({
+        channel_id: channelId,
+        sender_name: message.sender_name || channelName,
+        message,
+      }, "catchup");
+    }
+  }
+
+  async function replayCatchupEvent(event: HxaCatchupEvent, since: number): Promise<void> {
+    switch (event.type) {
+      case "thread_invited":
+        handleThreadLifecycle("thread_participant", {
+          thread_id: event.thread_id,
+          bot_name: agentName,
+          action: "joined",
+          by: event.inviter,
+        });
+        if (event.thread_id) await replayThreadActivity(event.thread_id, since);
+        break;
+      case "thread_status_changed":
+        handleThreadLifecycle("thread_status_changed", event);
+        break;
+      case "thread_activity":
+        if (event.thread_id) await replayThreadActivity(event.thread_id, since);
+        break;
+      case "channel_message_summary":
+        if (event.channel_id) await replayDirectChannel(event.channel_id, event.channel_name, since);
+        break;
+      default:
+        log?.debug?.(`${lp} Catch-up: ignoring unknown event type ${event.type}`);
+    }
+  }
+
+  /** Fetch and replay events missed since the persisted last-seen mark. */
+  async function runCatchup(reason: string): Promise<void> {
+    if (!catchupEnabled || catchupRunning) return;
+    const startedAt = Date.now();
+    if (!lastSeen) {
+      // First run for this account: nothing to catch up on, start tracking from now
+      lastSeen = startedAt;
+      await persistLastSeen();
+      return;
+    }
+    const since = Math.max(0, lastSeen - CATCHUP_OVERLAP_MS);
+    catchupRunning = true;
+    try {
+      const count = await fetchCatchupCount(acct, since);
+      if (count > 0) {
+        log?.info?.(`${lp} Catch-up (${reason}): ${count} missed event(s) since ${new Date(since).toISOString()}`);
+        const events = await fetchCatchupEvents(acct, since, catchupMaxEvents);
+        if (count > events.length) {
+          log?.warn?.(`${lp} Catch-up limited to ${events.length} of ${count} event(s) (maxEvents: ${catchupMaxEvents})`);
+        }
+        for (const event of events) {
+          try {
+            await replayCatchupEvent(event, since);
+          } catch (err: any) {
+            log?.warn?.(`${lp} Catch-up replay failed for ${event.type}: ${err.message}`);
+          }
+        }
+      }
+      lastSeen = startedAt;
+      await persistLastSeen();
+    } catch (err: any) {
+      log?.warn?.(`${lp} Catch-up (${reason}) failed: ${err.message}`);
+    } finally {
+      catchupRunning = false;
+    }
+  }
+
+  // Keep the last-seen mark fresh while connected so a crash loses at most one interval
+  const lastSeenTimer = setInterval(() => {
+    touchLastSeen();
+    void persistLastSeen();
+  }, 60_000);
+  lastSeenTimer.unref?.();
+
+  // Connection lifecycle
+  client.on("reconnecting", ({ attempt, delay }: any) => {
+    const health = getAccountHealth(accountId);
+    updateAccountHealth(accountId, {
+      connectionState: "reconnecting",
+      reconnectAttempts: attempt ?? health.reconnectAttempts + 1,
+      ...(live ? { lastDisconnectedAt: Date.now() } : {}),
+    });
+    live = false;
+    log?.warn?.(`${lp} Reconnecting (attempt ${attempt}, delay ${delay}ms)...`);
+  });
+  client.on("reconnected", ({ attempts }: any) => {
+    log?.info?.(`${lp} Reconnected after ${attempts} attempt(s)`);
+    live = true;
+    updateAccountHealth(accountId, { connectionState: "connected", lastConnectedAt: Date.now(), reconnectAttempts: 0 });
+    void runCatchup("reconnect");
+  });
+  client.on("reconnect_failed", ({ attempts }: any) => {
+    log?.error?.(`${lp} Reconnect failed after ${attempts} attempts`);
+    updateAccountHealth(accountId, {
+      connectionState: "disconnected",
+      reconnectAttempts: attempts ?? getAccountHealth(accountId).reconnectAttempts,
+      lastError: `Reconnect failed after ${attempts} attempts`,
+    });
+  });
+  client.on("error", (err: any) => {
+    log?.error?.(`${lp} Error: ${err?.message || err}`);
+    updateAccountHealth(accountId, { lastError: String(err?.message || err) });
+  });
+
+  client.on("session_invalidated", ({ code, reason }: any) => {
+    log?.error?.(`${lp} Session invalidated (code ${code}): ${reason || "unknown"}`);
+    log?.error?.(
+      `${lp} SDK will not auto-reconnect — ${onSessionInvalidated ? "starting session recovery" : "connection lost"}`,
+    );
+    live = false;
+    updateAccountHealth(accountId, {
+      connectionState: "session-invalidated",
+      lastDisconnectedAt: Date.now(),
+      lastError: `Session invalidated (code ${code}): ${reason || "unknown"}`,
+    });
+    clearInterval(lastSeenTimer);
+    void persistLastSeen();
+    stopPresenceRefresh(accountId);
+    threadCtx.stop();
+    client.disconnect();
+    wsConnections.delete(accountId);
+    onSessionInvalidated?.();
+  });
+
+  /** Apply a re-read config; hubUrl/token/org/agent identity changes need a reconnect instead. */
+  function reload(next: HxaAccountConfig, nextCfg: any): void {
+    acct = next;
+    cfg = nextCfg;
+    access = next.access || {};
+    catchupEnabled = next.catchup?.enabled !== false;
+    catchupMaxEvents = next.catchup?.maxEvents ?? DEFAULT_CATCHUP_MAX_EVENTS;
+    dp = displayPrefix(accountId, nextCfg);
+    lifecycleCtx.cfg = nextCfg;
+    lifecycleCtx.dp = dp;
+    const conn = wsConnections.get(accountId);
+    if (conn && conn.client === client) conn.config = next;
+  }
+
+  /** Stop background work and flush the last-seen mark before disconnecting. */
+  function shutdown(): void {
+    touchLastSeen();
+    live = false;
+    stopPresenceRefresh(accountId);
+    clearInterval(lastSeenTimer);
+    void persistLastSeen();
+    threadCtx.stop();
+    client.disconnect();
+  }
+
+  // Listen for abort signal to disconnect gracefully
+  if (abortSignal) {
+    abortSignal.addEventListener(
+      "abort",
+      () => {
+        log?.info?.(`${lp} Abort signal received, disconnecting`);
+        shutdown();
+        wsConnections.delete(accountId);
+      },
+      { once: true },
+    );
+  }
+
+  // Connect
+  log?.info?.(`${lp} Connecting as "${agentName}" to ${acct.hubUrl}`);
+  updateAccountHealth(accountId, { connectionState: "connecting" });
+  try {
+    await client.connect();
+  } catch (err) {
+    clearInterval(lastSeenTimer);
+    throw err;
+  }
+  log?.info?.(`${lp} WebSocket connected`);
+  updateAccountHealth(accountId, { connectionState: "connected", lastConnectedAt: Date.now(), reconnectAttempts: 0 });
+  await threadCtx.start();
+  log?.info?.(`${lp} ThreadContext started (per-thread mode, default: mention, filter: @${agentName})`);
+
+  wsConnections.set(accountId, {
+    client,
+    threadCtx,
+    accountId,
+    config: acct,
+    disconnect: shutdown,
+    reload,
+  });
+
+  live = true;
+  startPresenceRefresh(accountId, acct, client, log);
+  void runCatchup("connect");
+}
+
+// ─── Thread Delivery (shared by WS + Webhook) ───────────────
+
+/** Case-insensitive `@agentName` matcher for thread mention detection. */
+function buildMentionRe(agentName: string): RegExp {
+  return new RegExp(`@${agentName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i");
+}
+
+// Extract all searchable text from message (for mention detection).
+// Includes text/markdown content PLUS alt text, filenames, titles from
+// non-text parts so @mentions in those fields still trigger delivery.
+function extractText(msg: any): string {
+  const texts = [msg.content || ""];
+  if (msg.parts) {
+    for (const part of msg.parts) {
+      if ("content" in part && typeof part.content === "string") {
+        texts.push(part.content);
+      }
+      if (part.type === "image" && part.alt) texts.push(part.alt);
+      if (part.type === "file" && part.name) texts.push(part.name);
+      if (part.type === "link" && part.title) texts.push(part.title);
+    }
+  }
+  return texts.join(" ");
+}
+
+/** True when the message @mentions the agent or uses `mention_all` (@all). */
+function isThreadMention(msg: any, mentionRe: RegExp): boolean {
+  return mentionRe.test(extractText(msg)) || !!msg.mention_all;
+}
+
+/** Display-friendly sender name (human provenance aware). */
+function msgSender(msg: any): string {
+  const botName = msg.sender_name || msg.sender_id || "unknown";
+  const meta =
+    typeof msg.metadata === "string"
+      ? (() => { try { return JSON.parse(msg.metadata); } catch { return null; } })()
+      : msg.metadata;
+  if (meta?.provenance?.authored_by === "human" && meta.provenance.owner_name) {
+    return `${meta.provenance.owner_name} (via ${botName})`;
+  }
+  return botName;
+}
+
+const DEFAULT_CONTEXT_MAX_MESSAGES = 50;
+const DEFAULT_CONTEXT_MAX_CHARS = 16_000;
+const DEFAULT_CONTEXT_MAX_MESSAGE_CHARS = 2_000;
+const CHARS_PER_TOKEN = 4;
+
+/** Thread context budget: account `threadContext` overridden by `access.threads.<id>.context`. */
+function resolveThreadContextConfig(acct: HxaAccountConfig, threadId: string): HxaThreadContextConfig {
+  return { ...acct.threadContext, ...acct.access?.threads?.[threadId]?.context };
+}
+
+/**
+ * Format buffered context messages within the budget. Newest messages are kept;
+ * older ones are dropped and counted so the caller can say how many were omitted.
+ */
+function buildContextLines(
+  messages: any[],
+  budget: HxaThreadContextConfig = {},
+): { lines: string[]; omitted: number } {
+  const maxMessages = budget.maxMessages ?? DEFAULT_CONTEXT_MAX_MESSAGES;
+  const maxChars = Math.min(
+    budget.maxChars ?? DEFAULT_CONTEXT_MAX_CHARS,
+    budget.maxTokens != null ? budget.maxTokens * CHARS_PER_TOKEN : Infinity,
+  );
+  const maxMessageChars = budget.maxMessageChars ?? DEFAULT_CONTEXT_MAX_MESSAGE_CHARS;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0 && lines.length < maxMessages; i--) {
+    const m = messages[i];
+    let text = m.content || "";
+    if (text.length > maxMessageChars) {
+      text = `${text.slice(0, maxMessageChars)}… [${text.length - maxMessageChars} chars truncated]`;
+    }
+    const line = `[${escapeXml(msgSender(m))}]: ${escapeXml(text)}${escapeXml(formatAttachments(m.parts))}`;
+    if (used + line.length > maxChars) break;
+    used += line.length + 1;
+    lines.unshift(line);
+  }
+  return { lines, omitted: messages.length - lines.length };
+}
+
+/**
+ * Fetch the thread's topic/context and latest artifacts when the budget asks
+ * for them. Best effort — a failed lookup just leaves the block out.
+ */
+async function fetchThreadInfo(
+  acct: HxaAccountConfig,
+  threadId: string,
+  budget: HxaThreadContextConfig,
+): Promise<string> {
+  if (!budget.includeTopic && !budget.includeArtifacts) return "";
+  const lines: string[] = [];
+  try {
+    if (budget.includeTopic) {
+      const resp = await hubFetch(acct, `/api/threads/${encodeURIComponent(threadId)}`, { method: "GET" });
+      const thread: any = await resp.json();
+      if (thread?.topic) lines.push(`Topic: ${thread.topic}`);
+      if (thread?.status) lines.push(`Status: ${thread.status}`);
+      if (thread?.context) {
+        const ctx = typeof thread.context === "string" ? thread.context : JSON.stringify(thread.context);
+        lines.push(`Context: ${ctx}`);
+      }
+    }
+    if (budget.includeArtifacts) {
+      const resp = await hubFetch(acct, `/api/threads/${encodeURIComponent(threadId)}/artifacts`, { method: "GET" });
+      const data: any = await resp.json();
+      const artifacts: any[] = Array.isArray(data) ? data : (data?.artifacts || []);
+      if (artifacts.length) {
+        lines.push("Artifacts:");
+        for (const a of artifacts.slice(-10)) {
+          lines.push(`- ${a.artifact_key}${a.version ? ` v${a.version}` : ""} (${a.type || "unknown"}): ${a.title || a.artifact_key}`);
+        }
+      }
+    }
+  } catch (err: any) {
+    console.warn(`[hxa-connect] thread info lookup failed for ${threadId}: ${err.message}`);
+  }
+  return lines.length ? `<thread-info>\n${escapeXml(lines.join("\n"))}\n</thread-info>\n\n` : "";
+}
+
+const DEFAULT_BACKFILL_MESSAGES = 20;
+
+const MAX_BACKFILLED_THREADS = 1000;
+
+/** accountId → threads already considered for backfill since startup. */
+const backfilledThreads = new Map<string, Set<string>>();
+
+/**
+ * True for the first real @mention in a thread since startup when the budget
+ * asks for backfill and the local buffer is too short. Later deliveries rely
+ * on the buffer, so the same history isn't fetched and re-sent every time.
+ */
+function needsBackfill(
+  accountId: string,
+  threadId: string,
+  budget: HxaThreadContextConfig,
+  buffered: any[],
+  mention: boolean,
+): boolean {
+  if (!budget.backfill || !mention) return false;
+  let done = backfilledThreads.get(accountId);
+  if (!done) {
+    done = new Set();
+    backfilledThreads.set(accountId, done);
+  }
+  if (done.has(threadId)) return false;
+  done.add(threadId);
+  if (done.size > MAX_BACKFILLED_THREADS) done.delete(done.values().next().value!);
+  return buffered.length < (budget.backfillMessages ?? DEFAULT_BACKFILL_MESSAGES);
+}
+
+/**
+ * Merge recent thread history from the hub into the buffered context, for
+ * mentions in threads we joined late or after a restart. Deduplicated by ID,
+ * excludes the triggering message and keeps chronological order.
+ */
+async function backfillThreadMessages(
+  client: any,
+  threadId: string,
+  triggerId: string | undefined,
+  buffered: any[],
+  limit: number,
+): Promise<any[]> {
+  const fetched = await client.getThreadMessages(threadId, { limit });
+  const history: any[] = Array.isArray(fetched) ? fetched : (fetched?.messages || []);
+  return mergeThreadMessages(history, buffered).filter((m) => !triggerId || m.id !== triggerId);
+}
+
+function messageTime(m: any): number {
+  return typeof m.created_at === "number" ? m.created_at : Date.parse(m.created_at) || Infinity;
+}
+
+/** Merge message lists, deduplicated by ID (first occurrence wins), in chronological order. */
+function mergeThreadMessages(...lists: any[][]): any[] {
+  const seen = new Set<string>();
+  const merged: any[] = [];
+  for (const m of lists.flat()) {
+    if (m.id) {
+      if (seen.has(m.id)) continue;
+      seen.add(m.id);
+    }
+    merged.push(m);
+  }
+  return merged
+    .map((m, i) => ({ m, i }))
+    .sort((a, b) => messageTime(a.m) - messageTime(b.m) || a.i - b.i)
+    .map(({ m }) => m);
+}
+
+/** Build the agent-facing thread message with XML tags (consistent with Lark/TG format). */
+function formatThreadDelivery(opts: {
+  dp: string;
+  threadId: string;
+  message: any;
+  contextMsgs: any[];
+  smartHint: boolean;
+  attachments: string;
+  budget?: HxaThreadContextConfig;
+  threadInfo?: string;
+}): string {
+  const { message } = opts;
+  const parts: string[] = [`[${opts.dp} Thread:${opts.threadId}] ${msgSender(message)} said: `];
+
+  if (opts.threadInfo) parts.push(opts.threadInfo);
+
+  // Thread context: previous messages (excluding trigger) within the budget — no media download for context
+  if (opts.contextMsgs.length > 0) {
+    const { lines, omitted } = buildContextLines(opts.contextMsgs, opts.budget);
+    if (omitted > 0) lines.unshift(`[${omitted} earlier message(s) omitted]`);
+    parts.push(`<thread-context>\n${lines.join("\n")}\n</thread-context>\n\n`);
+  }
+
+  // Smart mode hint
+  if (opts.smartHint) {
+    parts.push(
+      "<smart-mode>\nDecide whether to respond. Reply with exactly [SKIP] when a response is unnecessary.\n</smart-mode>\n\n",
+    );
+  }
+
+  // Reply-to context (like TG's replying-to format)
+  if (message.reply_to_message) {
+    const reply = message.reply_to_message;
+    const replySender = escapeXml(reply.sender_name || reply.sender_id || "unknown");
+    const replyContent = escapeXml(reply.content || "");
+    const replyAtt = escapeXml(formatAttachments(reply.parts));
+    parts.push(`<replying-to>\n[${replySender}]: ${replyContent}${replyAtt}\n</replying-to>\n\n`);
+  }
+
+  // Current message (includes non-text attachments with local paths when downloaded)
+  parts.push(`<current-message>\n${escapeXml(message.content || "")}${escapeXml(opts.attachments)}\n</current-message>`);
+  return parts.join("");
+}
+
+// ─── Thread Lifecycle Events (shared by WS + Webhook) ───────
+
+type ThreadLifecycleType =
+  | "thread_created"
+  | "thread_updated"
+  | "thread_status_changed"
+  | "thread_artifact"
+  | "thread_participant";
+
+interface ThreadLifecycleContext {
+  cfg: any;
+  accountId: string;
+  dp: string;
+  log: any;
+}
+
+/** Dispatch thread lifecycle events to the agent as system messages, keyed by hub event type. */
+const threadLifecycleHandlers: Record<ThreadLifecycleType, (ctx: ThreadLifecycleContext, msg: any) => void> = {
+  thread_created(ctx, msg) {
+    const { accountId, dp, log } = ctx;
     const thread = msg.thread || {};
+    rememberThreadMeta(accountId, thread);
     const topic = thread.topic || "untitled";
     const tags = thread.tags?.length ? thread.tags.join(", ") : "none";
-    log?.info?.(`${lp} Thread created: "${topic}" (tags: ${tags})`);
+    log?.info?.(`[hxa-connect:${accountId}] Thread created: "${topic}" (tags: ${tags})`);
 
-    dispatchInbound({
-      cfg,
-      accountId,
-      senderName: "system",
-      senderId: "system",
-      content: `[${dp} Thread] New thread created: "${topic}" (tags: ${tags}, id: ${thread.id})`,
-      chatType: "group",
-      groupSubject: `thread:${thread.id}`,
-      replyTarget: `thread:${thread.id}`,
-      displayPrefix: dp,
-    });
-  });
+    emitLifecycleNotice(ctx, "thread_created", thread.id,
+      `[${dp} Thread] New thread created: "${topic}" (tags: ${tags}, id: ${thread.id})`);
+  },
 
-  client.on("thread_updated", (msg: any) => {
+  thread_updated(ctx, msg) {
+    const { accountId, dp, log } = ctx;
     const thread = msg.thread || {};
+    rememberThreadMeta(accountId, thread);
     const changes = msg.changes || [];
-    log?.info?.(`${lp} Thread updated: "${thread.topic}" changes: ${changes.join(", ")}`);
+    log?.info?.(`[hxa-connect:${accountId}] Thread updated: "${thread.topic}" changes: ${changes.join(", ")}`);
 
-    dispatchInbound({
-      cfg,
-      accountId,
-      senderName: "system",
-      senderId: "system",
-      content: `[${dp} Thread:${thread.id}] Thread "${thread.topic}" updated: ${changes.join(", ")} (status: ${thread.status})`,
-      chatType: "group",
-      groupSubject: `thread:${thread.id}`,
-      replyTarget: `thread:${thread.id}`,
-      displayPrefix: dp,
-    });
+    emitLifecycleNotice(ctx, "thread_updated", thread.id,
+      `[${dp} Thread:${thread.id}] Thread "${thread.topic}" updated: ${changes.join(", ")} (status: ${thread.status})`);
+  },
+
+  thread_status_changed(ctx, msg) {
+    const { accountId, dp, log } = ctx;
+    const by = msg.by ? ` (by ${msg.by})` : "";
+    updateThreadTarget(accountId, msg.thread_id, { topic: msg.topic, status: msg.to });
+    log?.info?.(`[hxa-connect:${accountId}] Thread status: "${msg.topic}" ${msg.from} -> ${msg.to}${by}`);
+
+    emitLifecycleNotice(ctx, "thread_status_changed", msg.thread_id,
+      `[${dp} Thread:${msg.thread_id}] Thread "${msg.topic}" status changed: ${msg.from} -> ${msg.to}${by}`);
+  },
+
+  thread_artifact(ctx, msg) {
+    const { accountId, dp, log } = ctx;
+    const artifact = msg.artifact || {};
+    const action = msg.action || "added";
+    log?.info?.(`[hxa-connect:${accountId}] Thread ${msg.thread_id} artifact ${action}: ${artifact.artifact_key}`);
+
+    emitLifecycleNotice(ctx, "thread_artifact", msg.thread_id,
+      `[${dp} Thread:${msg.thread_id}] Artifact ${action}: "${artifact.title || artifact.artifact_key}" (type: ${artifact.type})`);
+  },
+
+  thread_participant(ctx, msg) {
+    const { accountId, dp, log } = ctx;
+    const botName = msg.bot_name || msg.bot_id;
+    const by = msg.by ? ` (by ${msg.by})` : "";
+    const labelTag = msg.label ? ` [${msg.label}]` : "";
+    const acct = resolveAccountConfig(ctx.cfg, accountId);
+    const self = (acct.agentId && msg.bot_id === acct.agentId) || (acct.agentName && msg.bot_name === acct.agentName);
+    if (self && msg.action !== "joined") forgetThreadTarget(accountId, msg.thread_id);
+    log?.info?.(`[hxa-connect:${accountId}] Thread ${msg.thread_id}: ${botName} ${msg.action}${by}`);
+
+    emitLifecycleNotice(ctx, "thread_participant", msg.thread_id,
+      `[${dp} Thread:${msg.thread_id}] ${botName}${labelTag} ${msg.action} the thread${by}`);
+  },
+};
+
+function isThreadLifecycleType(type: unknown): type is ThreadLifecycleType {
+  return typeof type === "string" && Object.hasOwn(threadLifecycleHandlers, type);
+}
+
+interface LifecycleDigest {
+  ctx: ThreadLifecycleContext;
+  lines: string[];
+  omitted: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_LIFECYCLE_DIGEST_SEC = 60;
+const MAX_LIFECYCLE_DIGEST_LINES = 50;
+
+/** accountId → threadId → events waiting for the next digest. */
+const lifecycleDigests = new Map<string, Map<string, LifecycleDigest>>();
+
+/** Per-thread setting first (event type, then mode), then the account's. */
+function resolveLifecycleDelivery(acct: HxaAccountConfig, threadId: string, type: ThreadLifecycleType): LifecycleDelivery {
+  const thread = acct.access?.threads?.[threadId]?.lifecycle;
+  const mode = thread?.events?.[type] ?? thread?.mode ?? acct.lifecycle?.events?.[type] ?? acct.lifecycle?.mode;
+  return mode === "log" || mode === "digest" ? mode : "deliver";
+}
+
+function dispatchLifecycleNotice(ctx: ThreadLifecycleContext, threadId: string, content: string): void {
+  dispatchInbound({
+    cfg: ctx.cfg,
+    accountId: ctx.accountId,
+    senderName: "system",
+    senderId: "system",
+    content,
+    chatType: "group",
+    groupSubject: `thread:${threadId}`,
+    replyTarget: `thread:${threadId}`,
+    displayPrefix: ctx.dp,
   });
+}
+
+/** Deliver, drop (already logged by the handler) or digest a lifecycle notice per the account/thread config. */
+function emitLifecycleNotice(ctx: ThreadLifecycleContext, type: ThreadLifecycleType, threadId: string, content: string): void {
+  const acct = resolveAccountConfig(ctx.cfg, ctx.accountId);
+  const delivery = resolveLifecycleDelivery(acct, threadId, type);
+  if (delivery === "log") return;
+  if (delivery === "deliver") {
+    dispatchLifecycleNotice(ctx, threadId, content);
+    return;
+  }
+
+  let digests = lifecycleDigests.get(ctx.accountId);
+  if (!digests) {
+    digests = new Map();
+    lifecycleDigests.set(ctx.accountId, digests);
+  }
+  const digest = digests.get(threadId) ?? { ctx, lines: [], omitted: 0, timer: null };
+  digests.set(threadId, digest);
+  digest.ctx = ctx;
+  if (digest.lines.length < MAX_LIFECYCLE_DIGEST_LINES) {
+    digest.lines.push(content.replace(/^\[[^\]]*\]\s*/, ""));
+  } else {
+    digest.omitted++;
+  }
+  if (!digest.timer) {
+    const seconds = acct.lifecycle?.digestSeconds ?? DEFAULT_LIFECYCLE_DIGEST_SEC;
+    digest.timer = setTimeout(() => flushLifecycleDigest(ctx.accountId, threadId), Math.max(seconds, 1) * 1000);
+    digest.timer.unref?.();
+  }
+}
 
-  client.on("thread_status_changed", (msg: any) => {
-    const by = msg.by ? ` (by ${msg.by})` : "";
-    log?.info?.(`${lp} Thread status: "${msg.topic}" ${msg.from} -> ${msg.to}${by}`);
+/** Deliver a thread's pending lifecycle events as one summarised system message. */
+function flushLifecycleDigest(accountId: string, threadId: string): void {
+  const digests = lifecycleDigests.get(accountId);
+  const digest = digests?.get(threadId);
+  if (!digest) return;
+  if (digest.timer) clearTimeout(digest.timer);
+  digests!.delete(threadId);
+  const count = digest.lines.length + digest.omitted;
+  const omitted = digest.omitted ? `\n- … and ${digest.omitted} more` : "";
+  dispatchLifecycleNotice(
+    digest.ctx,
+    threadId,
+    `[${digest.ctx.dp} Thread:${threadId}] Thread activity digest (${count} event(s)):\n` +
+      `${digest.lines.map((l) => `- ${l}`).join("\n")}${omitted}`,
+  );
+}
 
-    dispatchInbound({
-      cfg,
-      accountId,
-      senderName: "system",
-      senderId: "system",
-      content: `[${dp} Thread:${msg.thread_id}] Thread "${msg.topic}" status changed: ${msg.from} -> ${msg.to}${by}`,
-      chatType: "group",
-      groupSubject: `thread:${msg.thread_id}`,
-      replyTarget: `thread:${msg.thread_id}`,
-      displayPrefix: dp,
-    });
-  });
+/** Deliver every pending digest for an account now (on stop). */
+function flushLifecycleDigests(accountId: string): void {
+  for (const threadId of [...(lifecycleDigests.get(accountId)?.keys() ?? [])]) {
+    flushLifecycleDigest(accountId, threadId);
+  }
+}
 
-  client.on("thread_artifact", (msg: any) => {
-    const artifact = msg.artifact || {};
-    const action = msg.action || "added";
-    log?.info?.(`${lp} Thread ${msg.thread_id} artifact ${action}: ${artifact.artifact_key}`);
+// ─── Session Recovery ────────────────────────────────────────
 
-    dispatchInbound({
-      cfg,
-      accountId,
-      senderName: "system",
-      senderId: "system",
-      content: `[${dp} Thread:${msg.thread_id}] Artifact ${action}: "${artifact.title || artifact.artifact_key}" (type: ${artifact.type})`,
-      chatType: "group",
-      groupSubject: `thread:${msg.thread_id}`,
-      replyTarget: `thread:${msg.thread_id}`,
-      displayPrefix: dp,
-    });
+const SESSION_RECOVERY_BASE_MS = 5_000;
+const SESSION_RECOVERY_MAX_MS = 5 * 60_000;
+
+/** Resolve after `ms`, or as soon as the signal aborts. */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
   });
+}
 
-  client.on("thread_participant", (msg: any) => {
-    const botName = msg.bot_name || msg.bot_id;
-    const by = msg.by ? ` (by ${msg.by})` : "";
-    const labelTag = msg.label ? ` [${msg.label}]` : "";
-    log?.info?.(`${lp} Thread ${msg.thread_id}: ${botName} ${msg.action}${by}`);
+/**
+ * Re-establish the WebSocket after the hub invalidated our session. Config is
+ * re-read on every attempt so a rotated token is picked up. Resolves once
+ * reconnected (or aborted); rejects when the hub rejects the token itself.
+ */
+async function recoverSession(
+  accountId: string,
+  log: any,
+  abortSignal: AbortSignal | undefined,
+  onSessionInvalidated: () => void,
+): Promise<void> {
+  const lp = `[hxa-connect:${accountId}]`;
+  for (let attempt = 1; !abortSignal?.aborted; attempt++) {
+    const delay = Math.min(SESSION_RECOVERY_BASE_MS * 2 ** (attempt - 1), SESSION_RECOVERY_MAX_MS);
+    updateAccountHealth(accountId, { connectionState: "recovering", reconnectAttempts: attempt });
+    log?.info?.(`${lp} Session recovery attempt ${attempt} in ${delay}ms`);
+    await abortableSleep(delay, abortSignal);
+    if (abortSignal?.aborted) return;
+
+    let cfg: any;
+    let acct: HxaAccountConfig;
+    try {
+      cfg = await getRuntime().config.loadConfig();
+      acct = resolveAccountConfig(cfg, accountId);
+      await hubFetch(acct, "/api/me", { method: "GET" });
+    } catch (err: any) {
+      if (err?.status === 401 || err?.status === 403) {
+        throw new Error(`hxa-connect: account ${accountId} token rejected by hub (${err.status}), not reconnecting`);
+      }
+      log?.warn?.(`${lp} Session recovery check failed: ${err.message}`);
+      continue;
+    }
 
-    dispatchInbound({
-      cfg,
-      accountId,
-      senderName: "system",
-      senderId: "system",
-      content: `[${dp} Thread:${msg.thread_id}] ${botName}${labelTag} ${msg.action} the thread${by}`,
-      chatType: "group",
-      groupSubject: `thread:${msg.thread_id}`,
-      replyTarget: `thread:${msg.thread_id}`,
-      displayPrefix: dp,
-    });
-  });
+    try {
+      await connectAccount(accountId, acct, cfg, log, abortSignal, onSessionInvalidated);
+    } catch (err: any) {
+      log?.warn?.(`${lp} Session recovery connect failed: ${err.message}`);
+      continue;
+    }
+    // Queued replies should go out with the (possibly rotated) token too
+    const box = outboxes.get(accountId);
+    if (box) box.acct = acct;
+    const running = runningAccounts.get(accountId);
+    if (running) running.acct = acct;
+    log?.info?.(`${lp} Session recovered after ${attempt} attempt(s)`);
+    return;
+  }
+}
 
-  // Bot presence
-  client.on("bot_online", (msg: any) => {
-    log?.info?.(`${lp} ${msg.bot?.name || "unknown"} is online`);
-  });
-  client.on("bot_offline", (msg: any) => {
-    log?.info?.(`${lp} ${msg.bot?.name || "unknown"} is offline`);
-  });
+// ─── Config Hot Reload ───────────────────────────────────────
+
+/** Fields baked into the SDK client and ThreadContext — changing any of them reconnects. */
+const CONNECTION_FIELDS = ["hubUrl", "agentToken", "orgId", "agentId", "agentName", "useWebSocket"] as const;
+const CONFIG_RELOAD_INTERVAL_MS = 30_000;
+
+interface RunningAccount {
+  acct: HxaAccountConfig;
+  log: any;
+  abortSignal?: AbortSignal;
+  onSessionInvalidated: () => void;
+  timer: ReturnType<typeof setInterval> | null;
+  /** Serializes reloads (poll + tool-triggered) */
+  queue: Promise<unknown>;
+  /** Last config rejected by validation, so it's only reported once */
+  rejected?: string;
+}
 
-  // Connection lifecycle
-  client.on("reconnecting", ({ attempt, delay }: any) => {
-    log?.warn?.(`${lp} Reconnecting (attempt ${attempt}, delay ${delay}ms)...`);
-  });
-  client.on("reconnected", ({ attempts }: any) => {
-    log?.info?.(`${lp} Reconnected after ${attempts} attempt(s)`);
-  });
-  client.on("reconnect_failed", ({ attempts }: any) => {
-    log?.error?.(`${lp} Reconnect failed after ${attempts} attempts`);
-  });
-  client.on("error", (err: any) => {
-    log?.error?.(`${lp} Error: ${err?.message || err}`);
-  });
+const runningAccounts = new Map<string, RunningAccount>();
+
+/** Track a started account and poll the config for changes. */
+function startConfigReload(accountId: string, running: Omit<RunningAccount, "timer" | "queue">): void {
+  stopConfigReload(accountId);
+  const entry: RunningAccount = { ...running, timer: null, queue: Promise.resolve() };
+  entry.timer = setInterval(() => {
+    getRuntime().config.loadConfig()
+      .then((cfg: any) => reloadAccountConfig(accountId, cfg))
+      .catch((err: any) => entry.log?.warn?.(`[hxa-connect:${accountId}] Config reload failed: ${err.message}`));
+  }, CONFIG_RELOAD_INTERVAL_MS);
+  entry.timer.unref?.();
+  runningAccounts.set(accountId, entry);
+}
 
-  client.on("session_invalidated", ({ code, reason }: any) => {
-    log?.error?.(`${lp} Session invalidated (code ${code}): ${reason || "unknown"}`);
-    log?.error?.(`${lp} SDK will not auto-reconnect — connection lost`);
-    threadCtx.stop();
-    client.disconnect();
-    wsConnections.delete(accountId);
-  });
+function stopConfigReload(accountId: string): void {
+  const running = runningAccounts.get(accountId);
+  if (running?.timer) clearInterval(running.timer);
+  runningAccounts.delete(accountId);
+}
 
-  // Listen for abort signal to disconnect gracefully
-  if (abortSignal) {
-    abortSignal.addEventListener(
-      "abort",
-      () => {
-        log?.info?.(`${lp} Abort signal received, disconnecting`);
-        threadCtx.stop();
-        client.disconnect();
-        wsConnections.delete(accountId);
-      },
-      { once: true },
-    );
+/**
+ * Apply the current config to a running account. Access rules, thread modes
+ * and other settings are swapped into the live WebSocket handlers; a change to
+ * a connection-level field reconnects. Configs with validation errors are
+ * ignored (the running config stays in effect).
+ */
+function reloadAccountConfig(accountId: string, cfg: any): Promise<"unchanged" | "updated" | "reconnected"> {
+  const running = runningAccounts.get(accountId);
+  if (!running) return Promise.resolve("unchanged");
+  const result = running.queue.then(() => applyAccountConfig(accountId, running, cfg));
+  running.queue = result.catch(() => {});
+  return result;
+}
+
+async function applyAccountConfig(
+  accountId: string,
+  running: RunningAccount,
+  cfg: any,
+): Promise<"unchanged" | "updated" | "reconnected"> {
+  const lp = `[hxa-connect:${accountId}]`;
+  const { log } = running;
+  const next = resolveAccountConfig(cfg, accountId);
+  const fingerprint = JSON.stringify(next);
+  if (fingerprint === JSON.stringify(running.acct) || fingerprint === running.rejected) return "unchanged";
+
+  const errors = validateHxaConnectConfig(cfg?.channels?.["hxa-connect"])
+    .filter((i) => i.severity === "error" && (!i.accountId || i.accountId === accountId))
+    .map(formatConfigIssue);
+  if (errors.length) {
+    running.rejected = fingerprint;
+    log?.warn?.(`${lp} Config change not applied: ${errors.join("; ")}`);
+    return "unchanged";
+  }
+  running.rejected = undefined;
+
+  const prev = running.acct;
+  running.acct = next;
+  const box = outboxes.get(accountId);
+  if (box) box.acct = next;
+  const conn = wsConnections.get(accountId);
+
+  if (!CONNECTION_FIELDS.some((f) => (prev[f] ?? null) !== (next[f] ?? null))) {
+    conn?.reload(next, cfg);
+    log?.info?.(`${lp} Config reloaded`);
+    return "updated";
   }
 
-  // Connect
-  log?.info?.(`${lp} Connecting as "${agentName}" to ${acct.hubUrl}`);
-  await client.connect();
-  log?.info?.(`${lp} WebSocket connected`);
-  await threadCtx.start();
-  log?.info?.(`${lp} ThreadContext started (per-thread mode, default: mention, filter: @${agentName})`);
+  // Session recovery re-reads the config on every attempt
+  const state = getAccountHealth(accountId).connectionState;
+  if (!conn && (state === "recovering" || state === "session-invalidated")) return "updated";
 
-  wsConnections.set(accountId, {
-    client,
-    threadCtx,
-    accountId,
-    config: acct,
-    disconnect: () => {
-      threadCtx.stop();
-      client.disconnect();
-    },
-  });
+  log?.info?.(`${lp} Connection settings changed, reconnecting`);
+  if (conn) {
+    conn.disconnect();
+    wsConnections.delete(accountId);
+  }
+  if (next.useWebSocket === false || !next.hubUrl || !next.agentToken) {
+    updateAccountHealth(accountId, { connectionState: "webhook-only", lastDisconnectedAt: Date.now() });
+    return "reconnected";
+  }
+  try {
+    await connectAccount(accountId, next, cfg, log, running.abortSignal, running.onSessionInvalidated);
+  } catch (err: any) {
+    log?.warn?.(`${lp} Reconnect with new settings failed: ${err.message}. Falling back to webhook-only.`);
+    updateAccountHealth(accountId, { connectionState: "webhook-only", lastError: `WebSocket failed: ${err.message}` });
+  }
+  return "reconnected";
 }
 
 // ─── Inbound Dispatch (shared by WS + Webhook) ──────────────
@@ -981,6 +4198,8 @@ interface InboundParams {
   replyToMessageId?: string; // message ID for reply-to on outbound
   replyToBody?: string; // reply-to message content (for context)
   replyToSender?: string; // reply-to sender name (for context)
+  fromHuman?: boolean; // human-authored via a bot (provenance) — resets the loop guard
+  rateLimited?: boolean; // already admitted by the rate limiter (held-back delivery)
   displayPrefix: string;
 }
 
@@ -991,12 +4210,42 @@ async function dispatchInbound(params: InboundParams) {
     accountId,
     senderName,
     senderId,
-    content,
     messageId,
     chatType,
     groupSubject,
     replyTarget,
   } = params;
+  let content = params.content;
+  const acct = resolveAccountConfig(cfg, accountId);
+  const isThread = replyTarget.startsWith("thread:");
+  const threadId = isThread ? replyTarget.slice("thread:".length) : undefined;
+  updateAccountHealth(accountId, { lastInboundAt: Date.now() });
+
+  // Inbound rate limits (system lifecycle notices are exempt)
+  if (senderId !== "system" && !params.rateLimited && !admitInbound(params, acct)) return;
+
+  // Bot-to-bot loop guard (system lifecycle notices don't count as turns)
+  if (senderId !== "system") {
+    const verdict = recordInboundTurn(accountId, acct, replyTarget, !!params.fromHuman);
+    if (verdict === "paused") {
+      console.log(`[hxa-connect:${accountId}] loop guard: ${replyTarget} paused, dropping message from ${senderName}`);
+      return;
+    }
+    if (verdict === "tripped") {
+      const pauseMin = Math.max(1, Math.ceil((acct.loopGuard?.pauseSeconds ?? DEFAULT_LOOP_PAUSE_SEC) / 60));
+      console.warn(`[hxa-connect:${accountId}] loop guard tripped for ${replyTarget}, pausing ${pauseMin}m`);
+      content =
+        `<loop-guard>\nThis conversation looks like a runaway bot-to-bot loop ` +
+        `(${acct.loopGuard?.maxTurns ?? DEFAULT_LOOP_MAX_TURNS} round trips within ` +
+        `${acct.loopGuard?.windowSeconds ?? DEFAULT_LOOP_WINDOW_SEC}s, no human involvement). ` +
+        `Delivery and replies are paused for ${pauseMin} minute(s) or until a human writes. Do not reply.\n` +
+        `</loop-guard>\n\n${content}`;
+      if (threadId && acct.loopGuard?.notifyThread) {
+        sendToThread(acct, threadId, `⏸ Loop guard: pausing my replies in this thread for ${pauseMin} minute(s) — too many bot-to-bot exchanges without human input.`)
+          .catch((err: any) => console.warn(`[hxa-connect:${accountId}] loop guard notice failed: ${err.message}`));
+      }
+    }
+  }
 
   const from = `hxa-connect:${senderId}`;
   const to = `hxa-connect:${accountId}`;
@@ -1045,29 +4294,34 @@ async function dispatchInbound(params: InboundParams) {
     ...(params.replyToSender ? { ReplyToSender: params.replyToSender } : {}),
   });
 
-  const acct = resolveAccountConfig(cfg, accountId);
-  const isThread = replyTarget.startsWith("thread:");
-  const threadId = isThread ? replyTarget.slice("thread:".length) : undefined;
-
   await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
     ctx: ctxPayload,
     cfg,
     dispatcherOptions: {
       deliver: async (payload: any) => {
         const text =
-          typeof payload === "string"
-            ? payload
-            : payload?.text ?? payload?.body ?? String(payload);
-        if (!text?.trim()) return;
+          payload && typeof payload === "object"
+            ? String(payload.text ?? payload.body ?? "")
+            : String(payload ?? "");
+        const hasMedia = !!(payload?.mediaUrl || payload?.mediaUrls?.length || payload?.channelData?.["hxa-connect"]?.parts);
+        if (!text.trim() && !hasMedia) return;
+        if (loopPausedUntil(accountId, acct, replyTarget)) {
+          console.log(`[hxa-connect:${accountId}] loop guard: reply to ${replyTarget} suppressed (paused)`);
+          return;
+        }
 
         try {
-          if (threadId) {
-            await sendToThread(acct, threadId, text, {
-              replyTo: params.replyToMessageId,
-            });
-          } else {
-            await sendDM(acct, replyTarget, text);
-          }
+          const parts = await composeReplyParts(acct, payload, text);
+          if (!text.trim() && !parts.length) return;
+          recordOutboundTurn(accountId, acct, replyTarget);
+          const contentType = payload?.channelData?.["hxa-connect"]?.contentType;
+          await deliverOutbound(accountId, acct, {
+            replyTarget,
+            text,
+            replyTo: threadId ? params.replyToMessageId : undefined,
+            ...(parts.length ? { parts } : {}),
+            ...(contentType === "text" || contentType === "markdown" ? { contentType } : {}),
+          });
         } catch (err: any) {
           console.error(`[hxa-connect] reply failed:`, err);
         }
@@ -1098,25 +4352,15 @@ const hxaConnectChannel = {
     chatTypes: ["direct" as const, "channel" as const],
     polls: false,
     threads: true,
-    media: false,
+    media: true,
     reactions: false,
     edit: false,
     reply: false,
   },
   messaging: {
     targetResolver: {
-      hint: 'Use bot name for DMs (e.g. "zylos01") or "thread:<uuid>" for threads',
-      looksLikeId: (raw: string, _normalized?: string): boolean => {
-        const trimmed = raw.trim();
-        if (!trimmed) return false;
-        // thread:<uuid> format
-        if (/^thread:/i.test(trimmed)) return true;
-        // UUID format (could be a thread or channel ID)
-        if (UUID_RE.test(trimmed)) return true;
-        // For HXA-Connect, any non-empty string is a valid target
-        // (bot name for DM, or other identifier) — sendText handles resolution
-        return true;
-      },
+      hint: 'Use "dm:<bot name or ID>" (or a bare bot name), "thread:<uuid>" (or a thread topic), "channel:<id>", or "new-thread:<topic>?participants=a,b&tags=x" to start a thread; prefix "<account>/" to send from another account',
+      looksLikeId: (raw: string, _normalized?: string): boolean => isWellFormedTarget(raw),
     },
   },
   config: {
@@ -1140,7 +4384,8 @@ const hxaConnectChannel = {
   },
   outbound: {
     deliveryMode: "direct" as const,
-    textChunkLimit: 8000,
+    // Hub sends are chunked by the plugin (markdown-aware, see chunkOutboundText)
+    textChunkLimit: 100_000,
     sendText: async (params: {
       cfg: any;
       to: string;
@@ -1148,11 +4393,12 @@ const hxaConnectChannel = {
       accountId?: string;
       replyToId?: string;
     }) => {
-      const acct = resolveAccountConfig(params.cfg, params.accountId);
-      const result = await routeOutboundMessage(acct, params.to, params.text, {
-        replyTo: params.replyToId,
-      });
-      return { channel: "hxa-connect" as const, ...result };
+      const { ok, messageId, threadId, accountId, acct, target } = await routeOutboundMessage(
+        params.cfg, params.accountId, params.to, params.text, { replyTo: params.replyToId },
+      );
+      updateAccountHealth(accountId, { lastOutboundAt: Date.now() });
+      const peerStatus = peerStatusHint(accountId, acct, target);
+      return { channel: "hxa-connect" as const, ok, messageId, ...(threadId ? { threadId } : {}), ...(peerStatus ? { peerStatus } : {}) };
     },
     sendMedia: async (params: {
       cfg: any;
@@ -1162,16 +4408,25 @@ const hxaConnectChannel = {
       accountId?: string;
       replyToId?: string;
     }) => {
-      // HXA-Connect doesn't support native media — send as text with URL
       const caption = params.text || "";
       const mediaUrl = params.mediaUrl || "";
-      const text = [caption, mediaUrl].filter(Boolean).join("\n");
-      const acct = resolveAccountConfig(params.cfg, params.accountId);
+      // Resolve (and loop-guard) the target first; media goes to the hub of the account it names
+      const route = await resolveOutboundRoute(params.cfg, params.accountId, params.to);
+
+      let parts: any[] | undefined;
+      let text = caption;
+      if (mediaUrl) {
+        const { part, linked } = await buildMediaPartOrLink(route.acct, mediaUrl);
+        parts = [part];
+        if (linked) text = [caption, mediaUrl].filter(Boolean).join("\n");
+      }
 
-      const result = await routeOutboundMessage(acct, params.to, text, {
-        replyTo: params.replyToId,
-      });
-      return { channel: "hxa-connect" as const, ...result };
+      const { ok, messageId, threadId, accountId, acct, target } = await sendToRoute(
+        route, text, { replyTo: params.replyToId, parts },
+      );
+      updateAccountHealth(accountId, { lastOutboundAt: Date.now() });
+      const peerStatus = peerStatusHint(accountId, acct, target);
+      return { channel: "hxa-connect" as const, ok, messageId, ...(threadId ? { threadId } : {}), ...(peerStatus ? { peerStatus } : {}) };
     },
   },
   gateway: {
@@ -1180,38 +4435,189 @@ const hxaConnectChannel = {
       const log = ctx.log;
       const accountId = ctx.accountId || "default";
       log?.info?.(`hxa-connect: starting account ${accountId}`);
-      ctx.setStatus?.({ accountId });
+
+      const issues = validateHxaConnectConfig(ctx.cfg?.channels?.["hxa-connect"])
+        .filter((i) => !i.accountId || i.accountId === accountId);
+      const errors = issues.filter((i) => i.severity === "error").map(formatConfigIssue);
+      const warnings = issues.filter((i) => i.severity === "warning").map(formatConfigIssue);
+      for (const w of warnings) log?.warn?.(`hxa-connect: ${accountId} config warning: ${w}`);
+      if (ctx.setStatus) statusSinks.set(accountId, (status) => ctx.setStatus(status));
+      updateAccountHealth(accountId, {
+        configured: errors.length === 0,
+        running: errors.length === 0,
+        connectionState: errors.length ? "misconfigured" : "starting",
+        lastError: errors.length ? errors.join("; ") : null,
+        configWarnings: warnings.length ? warnings : undefined,
+      });
+      if (errors.length) {
+        statusSinks.delete(accountId);
+        // Fail the task so the gateway reports the account as stopped with the reason
+        throw new Error(`hxa-connect: account ${accountId} misconfigured: ${errors.join("; ")}`);
+      }
+
+      // Resume any replies queued before a restart
+      try {
+        await startOutbox(accountId, acct, log);
+      } catch (err: any) {
+        log?.warn?.(`hxa-connect: outbox failed to start for ${accountId}: ${err.message}`);
+      }
+      await loadSeenStore(accountId);
+      await loadThreadBuffers(accountId);
+      await loadPresence(accountId, acct);
+
+      // The task stays alive until the gateway aborts it. The promise exists before
+      // connecting so a revoked token reported during connect still fails the task.
+      let failTask!: (err: Error) => void;
+      const running = new Promise<void>((resolve, reject) => {
+        failTask = reject;
+        if (ctx.abortSignal?.aborted) return resolve();
+        ctx.abortSignal?.addEventListener("abort", () => resolve(), { once: true });
+      });
+      running.catch(() => {}); // rethrown by the await below
+
+      // A hub-side session purge is recovered by reconnecting; a revoked token fails the task
+      const onSessionInvalidated = () => {
+        recoverSession(accountId, log, ctx.abortSignal, onSessionInvalidated).catch((err: any) => failTask(err));
+      };
+      startConfigReload(accountId, { acct, log, abortSignal: ctx.abortSignal, onSessionInvalidated });
 
       // Start WebSocket connection for this account
       if (acct.useWebSocket !== false && acct.hubUrl && acct.agentToken) {
         try {
-          await connectAccount(accountId, acct, ctx.cfg, log, ctx.abortSignal);
+          await connectAccount(accountId, acct, ctx.cfg, log, ctx.abortSignal, onSessionInvalidated);
         } catch (err: any) {
           log?.warn?.(
             `hxa-connect: WebSocket failed for ${accountId}: ${err.message}. Falling back to webhook-only.`,
           );
+          updateAccountHealth(accountId, {
+            connectionState: "webhook-only",
+            lastError: `WebSocket failed: ${err.message}`,
+          });
         }
+      } else {
+        updateAccountHealth(accountId, { connectionState: "webhook-only" });
       }
 
-      // Keep the account task alive until the gateway aborts/stops it.
-      await new Promise<void>((resolve) => {
-        if (ctx.abortSignal?.aborted) return resolve();
-        ctx.abortSignal?.addEventListener("abort", () => resolve(), { once: true });
-      });
+      try {
+        await running;
+      } catch (err: any) {
+        log?.error?.(err.message);
+        updateAccountHealth(accountId, { lastError: err.message });
+        throw err;
+      } finally {
+        stopConfigReload(accountId);
+        stopOutbox(accountId);
+        flushInboundDebounce(accountId);
+        flushLifecycleDigests(accountId);
+        clearPendingInbound(accountId);
+        await flushSeenStore(accountId);
+        await flushThreadBuffers(accountId);
+        updateAccountHealth(accountId, { running: false, connectionState: "stopped", lastDisconnectedAt: Date.now() });
+        statusSinks.delete(accountId);
+      }
     },
     stopAccount: async (ctx: any) => {
       const accountId = ctx.accountId || "default";
       const log = ctx.log;
+      stopConfigReload(accountId);
       const conn = wsConnections.get(accountId);
       if (conn) {
         conn.disconnect();
         wsConnections.delete(accountId);
       }
+      stopOutbox(accountId);
+      flushInboundDebounce(accountId);
+      flushLifecycleDigests(accountId);
+      clearPendingInbound(accountId);
+      await flushSeenStore(accountId);
+      await flushThreadBuffers(accountId);
+      updateAccountHealth(accountId, { running: false, connectionState: "stopped", lastDisconnectedAt: Date.now() });
+      statusSinks.delete(accountId);
       log?.info?.(`hxa-connect: stopped account ${accountId}`);
     },
   },
 };
 
+// ─── Webhook Authentication ─────────────────────────────────
+
+const WEBHOOK_SIGNATURE_HEADER = "x-hub-signature";
+const WEBHOOK_TIMESTAMP_HEADER = "x-hub-timestamp";
+const DEFAULT_WEBHOOK_TOLERANCE_SEC = 300;
+const MAX_WEBHOOK_NONCES = 10_000;
+
+/** Recently accepted signatures → expiry (ms). Rejects replays inside the tolerance window. */
+const webhookNonces = new Map<string, number>();
+
+/** Constant-time string comparison (hashing first so length differences don't leak). */
+function safeEqual(a: string, b: string): boolean {
+  const ha = crypto.createHash("sha256").update(a).digest();
+  const hb = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+/** HMAC-SHA256 over `<timestamp>.<raw body>`, hex encoded. */
+function computeWebhookSignature(secret: string, timestamp: string, rawBody: Buffer): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex");
+}
+
+function headerValue(headers: Record<string, any>, name: string): string {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return String(Array.isArray(value) ? value[0] : value ?? "").trim();
+}
+
+function rememberWebhookNonce(signature: string, ttlMs: number, now: number): boolean {
+  for (const [key, expiry] of webhookNonces) {
+    if (expiry > now && webhookNonces.size < MAX_WEBHOOK_NONCES) break;
+    webhookNonces.delete(key);
+  }
+  if (webhookNonces.has(signature)) return false;
+  webhookNonces.set(signature, now + ttlMs);
+  return true;
+}
+
+/**
+ * Verify an inbound webhook against the account's secret.
+ * Returns null when authorized, otherwise a reason (for logs only — never sent back).
+ *
+ * Modes: "bearer" (static token), "hmac" (signature + timestamp required),
+ * "auto" (HMAC when a signature header is present, bearer otherwise).
+ */
+function verifyWebhookRequest(
+  acct: HxaAccountConfig,
+  headers: Record<string, any>,
+  rawBody: Buffer | null,
+  now: number = Date.now(),
+): string | null {
+  const secret = acct.webhookSecret;
+  if (!secret) return null;
+  const mode = acct.webhookAuth?.mode || "auto";
+  const signatureHeader = headerValue(headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (mode === "bearer" || (mode === "auto" && !signatureHeader)) {
+    const authHeader = headerValue(headers, "authorization");
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+    return token && safeEqual(token, secret) ? null : "invalid bearer token";
+  }
+
+  if (!signatureHeader) return "missing signature";
+  const timestamp = headerValue(headers, WEBHOOK_TIMESTAMP_HEADER);
+  if (!/^\d+$/.test(timestamp)) return "missing or invalid timestamp";
+  if (!rawBody) return "raw body unavailable for signature verification";
+
+  // Accept both unix seconds and milliseconds
+  const tsNum = Number(timestamp);
+  const tsMs = tsNum > 1e12 ? tsNum : tsNum * 1000;
+  const toleranceMs = (acct.webhookAuth?.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SEC) * 1000;
+  if (Math.abs(now - tsMs) > toleranceMs) return "timestamp outside tolerance window";
+
+  const provided = signatureHeader.replace(/^sha256=/i, "").toLowerCase();
+  const expected = computeWebhookSignature(secret, timestamp, rawBody);
+  if (!safeEqual(provided, expected)) return "signature mismatch";
+
+  if (!rememberWebhookNonce(expected, toleranceMs * 2, now)) return "replayed request";
+  return null;
+}
+
 // ─── Inbound webhook handler (fallback / non-WS mode) ────────
 async function handleInboundWebhook(req: any, res: any) {
   const core = getRuntime();
@@ -1233,11 +4639,30 @@ async function handleInboundWebhook(req: any, res: any) {
 
   const acct = accounts[matchedAccountId] || accounts[Object.keys(accounts)[0]];
 
-  // Verify webhook secret if configured
+  // Read the raw body up front — HMAC signatures cover the exact bytes received
+  const preParsed = typeof req.body === "object" && req.body !== null && !Buffer.isBuffer(req.body);
+  let rawBody: Buffer | null = null;
+  try {
+    if (Buffer.isBuffer(req.rawBody) || typeof req.rawBody === "string") {
+      rawBody = Buffer.from(req.rawBody);
+    } else if (Buffer.isBuffer(req.body) || typeof req.body === "string") {
+      rawBody = Buffer.from(req.body);
+    } else if (!preParsed) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk);
+      rawBody = Buffer.concat(chunks);
+    }
+  } catch (err: any) {
+    res.writeHead(400, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: `Failed to read body: ${err.message}` }));
+    return;
+  }
+
+  // Verify webhook authentication if a secret is configured
   if (acct?.webhookSecret) {
-    const authHeader = req.headers?.authorization ?? "";
-    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
-    if (token !== acct.webhookSecret) {
+    const authError = verifyWebhookRequest(acct, req.headers || {}, rawBody);
+    if (authError) {
+      console.warn(`[hxa-connect:${matchedAccountId}] webhook rejected: ${authError}`);
       res.writeHead(401, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Unauthorized" }));
       return;
@@ -1247,19 +4672,32 @@ async function handleInboundWebhook(req: any, res: any) {
   // Parse body with error handling
   let body: any;
   try {
-    if (typeof req.body === "object" && req.body !== null) {
-      body = req.body;
-    } else {
-      const chunks: Buffer[] = [];
-      for await (const chunk of req) chunks.push(chunk);
-      body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
-    }
+    body = preParsed ? req.body : JSON.parse((rawBody ?? Buffer.alloc(0)).toString("utf-8"));
   } catch (err: any) {
     res.writeHead(400, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: `Invalid JSON body: ${err.message}` }));
     return;
   }
 
+  // Hub event envelopes (thread lifecycle, artifacts, participants): `{ type, ...fields }`
+  // or `{ type, data: { ...fields } }`, dispatched exactly like the WS handlers
+  const eventType = body?.type ?? body?.event;
+  if (isThreadLifecycleType(eventType)) {
+    const event = body.data && typeof body.data === "object" ? body.data : body;
+    threadLifecycleHandlers[eventType](
+      {
+        cfg,
+        accountId: matchedAccountId,
+        dp: displayPrefix(matchedAccountId, cfg),
+        log: { info: (line: string) => console.log(line) },
+      },
+      event,
+    );
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true, event: eventType }));
+    return;
+  }
+
   // Parse webhook payload (v1 envelope or legacy flat format)
   let channel_id: string | undefined;
   let sender_name: string | undefined;
@@ -1270,6 +4708,8 @@ async function handleInboundWebhook(req: any, res: any) {
   let group_name: string | undefined;
   let reply_to_message: any | undefined;
   let message_parts: any[] | undefined;
+  let message_metadata: any | undefined;
+  let mention_all = false;
 
   if (body.webhook_version === "1") {
     const msg = body.message;
@@ -1280,10 +4720,13 @@ async function handleInboundWebhook(req: any, res: any) {
     message_id = msg?.id;
     reply_to_message = msg?.reply_to_message;
     message_parts = msg?.parts;
+    message_metadata = msg?.metadata;
+    mention_all = !!msg?.mention_all;
 
     if (channel_id && acct) {
       const channelInfo = await fetchChannelInfo(acct, channel_id);
       if (channelInfo) {
+        rememberChannel(matchedAccountId, channel_id, channelInfo.name);
         chat_type = channelInfo.type;
         group_name = channelInfo.name ?? undefined;
       } else {
@@ -1303,6 +4746,8 @@ async function handleInboundWebhook(req: any, res: any) {
     group_name = body.group_name;
     reply_to_message = body.reply_to_message;
     message_parts = body.parts || body.message?.parts;
+    message_metadata = body.metadata || body.message?.metadata;
+    mention_all = !!(body.mention_all ?? body.message?.mention_all);
   }
 
   if (!sender_name) {
@@ -1320,9 +4765,15 @@ async function handleInboundWebhook(req: any, res: any) {
 
   // Access control
   const access = acct?.access || {};
-  const isGroup = chat_type === "group";
-
-  if (!isGroup && !isDmAllowed(access, sender_name)) {
+  // Only payloads that name a hub thread are replied to as thread:<id>; other
+  // group channels keep replying to the channel via /api/send
+  const hubThreadId: string | undefined =
+    body.thread_id ?? body.message?.thread_id ?? (chat_type === "thread" ? channel_id : undefined);
+  const isGroup = chat_type === "group" || !!hubThreadId;
+  const groupId = hubThreadId ?? channel_id;
+
+  const senderIdentity = { name: sender_name, id: sender_id, metadata: message_metadata };
+  if (!isGroup && !isDmAllowed(access, senderIdentity)) {
     console.log(
       `[hxa-connect] DM from ${sender_name} rejected (dmPolicy: ${access.dmPolicy || "open"})`,
     );
@@ -1331,56 +4782,162 @@ async function handleInboundWebhook(req: any, res: any) {
     return;
   }
 
-  // Thread access control for group messages
-  if (isGroup && channel_id) {
-    if (!isThreadAllowed(access, channel_id)) {
+  // Thread access control for group messages (channels have no tags to look up)
+  if (isGroup && groupId) {
+    const meta = !hubThreadId
+      ? { topic: group_name }
+      : acct ? await resolveThreadMeta(matchedAccountId, acct, groupId) : null;
+    if (!isThreadAllowed(access, groupId, meta)) {
       console.log(
-        `[hxa-connect] Thread ${channel_id} rejected (groupPolicy: ${access.groupPolicy || "open"})`,
+        `[hxa-connect] Thread ${groupId} rejected (groupPolicy: ${access.groupPolicy || "open"})`,
       );
       res.writeHead(403, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Forbidden" }));
       return;
     }
-    if (!isSenderAllowed(access, channel_id, sender_name)) {
-      console.log(`[hxa-connect] Sender ${sender_name} rejected in thread ${channel_id}`);
+    if (!isSenderAllowed(access, groupId, senderIdentity, meta)) {
+      console.log(`[hxa-connect] Sender ${sender_name} rejected in thread ${groupId}`);
       res.writeHead(403, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Forbidden" }));
       return;
     }
   }
 
+  // Thread messages go through the same mention/smart pipeline as ThreadContext:
+  // in mention mode, non-mentions are buffered as context for the next @mention
+  const threadId = isGroup ? groupId : undefined;
+  const threadMessage = {
+    id: message_id,
+    sender_id,
+    sender_name,
+    content,
+    parts: message_parts,
+    metadata: message_metadata,
+    reply_to_message,
+    mention_all,
+  };
+  let isRealMention = false;
+  let threadMode: "mention" | "smart" = "mention";
+  if (threadId) {
+    isRealMention = isThreadMention(threadMessage, buildMentionRe(acct?.agentName || "cococlaw"));
+    threadMode = resolveThreadMode(cfg, matchedAccountId, threadId);
+    if (threadMode === "mention" && !isRealMention) {
+      const buffered = bufferThreadMessage(matchedAccountId, threadId, threadMessage);
+      console.log(`[hxa-connect:${matchedAccountId}] Thread ${threadId} from ${sender_name} (buffered, ${buffered} pending)`);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, buffered: true }));
+      return;
+    }
+  }
+
+  if (!claimInboundMessage(matchedAccountId, message_id, "webhook")) {
+    console.log(`[hxa-connect:${matchedAccountId}] webhook message ${message_id} already dispatched, skipping`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true, duplicate: true }));
+    return;
+  }
+
   console.log(`[hxa-connect] inbound from ${sender_name}: ${content.slice(0, 100)}`);
 
   // Download media parts from Hub to local filesystem (same as WS path)
   const whLp = `[hxa-connect:${matchedAccountId}]`;
   let localPaths: Record<string, string> = {};
-  const whConn = wsConnections.get(matchedAccountId);
-  if (whConn?.client) {
-    try {
-      const whMediaDir = path.join(getRuntime().dataDir, "media", matchedAccountId);
-      localPaths = await downloadMediaParts(message_parts, whConn.client, whMediaDir, whLp);
-    } catch (err: any) {
-      console.warn(`${whLp} Media download failed: ${err.message}`);
-    }
-  } else if (acct?.hubUrl && acct?.agentToken) {
+  let whClient: any = wsConnections.get(matchedAccountId)?.client;
+  if (!whClient && acct?.hubUrl && acct?.agentToken) {
     // Fallback: create a one-off client if WS connection is not available
     try {
       const sdk = await import("@coco-xyz/hxa-connect-sdk");
-      const whClient = new sdk.HxaConnectClient({
+      whClient = new sdk.HxaConnectClient({
         url: acct.hubUrl,
         token: acct.agentToken,
         orgId: acct.orgId,
       });
+    } catch (err: any) {
+      console.warn(`${whLp} Media download setup failed: ${err.message}`);
+    }
+  }
+  if (whClient) {
+    try {
       const whMediaDir = path.join(getRuntime().dataDir, "media", matchedAccountId);
       localPaths = await downloadMediaParts(message_parts, whClient, whMediaDir, whLp);
     } catch (err: any) {
-      console.warn(`${whLp} Media download setup failed: ${err.message}`);
+      console.warn(`${whLp} Media download failed: ${err.message}`);
     }
   }
 
   // Format non-text attachments from message parts
   const webhookAttachments = formatAttachments(message_parts, localPaths);
 
+  const dp = displayPrefix(matchedAccountId, cfg);
+
+  if (threadId) {
+    // Format and dispatch one (possibly debounced) thread delivery
+    const deliverThread = async (items: DebouncedThreadMessage[]): Promise<void> => {
+      const { message, attachments, mention } = mergeDebouncedThreadMessages(items);
+      const merged = new Set(items.map((it) => it.message.id));
+      let contextMsgs = takeThreadBuffer(matchedAccountId, threadId, message).filter((m) => !merged.has(m.id));
+      const budget = resolveThreadContextConfig(acct || {}, threadId);
+      const backfilled = !!whClient && !!hubThreadId && needsBackfill(matchedAccountId, threadId, budget, contextMsgs, mention);
+      if (backfilled) {
+        try {
+          contextMsgs = await backfillThreadMessages(
+            whClient, threadId, message.id, contextMsgs, budget.backfillMessages ?? DEFAULT_BACKFILL_MESSAGES,
+          );
+          contextMsgs = contextMsgs.filter((m) => !merged.has(m.id));
+        } catch (err: any) {
+          console.warn(`${whLp} Thread ${threadId} history backfill failed: ${err.message}`);
+        }
+      }
+      const formatted = formatThreadDelivery({
+        dp,
+        threadId,
+        message,
+        contextMsgs,
+        smartHint: !mention && threadMode === "smart",
+        attachments,
+        budget,
+        threadInfo: acct && hubThreadId
+          ? await fetchThreadInfo(acct, threadId, backfilled ? { ...budget, includeTopic: true } : budget)
+          : "",
+      });
+      const reply = message.reply_to_message;
+      await dispatchInbound({
+        cfg,
+        accountId: matchedAccountId,
+        senderName: sender_name,
+        senderId: sender_id || sender_name,
+        content: formatted,
+        messageId: message.id,
+        chatType: "group",
+        groupSubject: hubThreadId ? `thread:${threadId}` : (group_name || threadId),
+        replyTarget: hubThreadId ? `thread:${threadId}` : threadId,
+        replyToMessageId: message.id,
+        ...(reply ? {
+          replyToBody: reply.content || "",
+          replyToSender: reply.sender_name || reply.sender_id || "unknown",
+        } : {}),
+        fromHuman: items.some((it) => isHumanAuthored(it.message.metadata)),
+        displayPrefix: dp,
+      });
+    };
+
+    const item: DebouncedThreadMessage = { message: threadMessage, attachments: webhookAttachments, mention: isRealMention };
+    const debounceMs = threadMode === "smart" ? resolveDebounceMs(acct, threadId) : 0;
+    if (debounceMs > 0) {
+      debounceInbound(matchedAccountId, `thread:${threadId}:${sender_id || sender_name}`, acct, debounceMs, item,
+        (items) => void deliverThread(items).catch((err: any) => {
+          console.error(`${whLp} debounced thread delivery failed: ${err.message}`);
+        }));
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, debounced: true }));
+      return;
+    }
+    await deliverThread([item]);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+
   // Inject reply-to context (matching WS path behavior)
   let finalContent = content + webhookAttachments;
   if (reply_to_message && typeof reply_to_message === "object") {
@@ -1392,10 +4949,7 @@ async function handleInboundWebhook(req: any, res: any) {
     finalContent = `<replying-to>\n[${replySender}]: ${replyContent}${replyAtt}\n</replying-to>\n\n${content}${webhookAttachments}`;
   }
 
-  const dp = displayPrefix(matchedAccountId, cfg);
-  const replyTarget = isGroup ? (channel_id || sender_name) : sender_name;
-
-  await dispatchInbound({
+  const params: InboundParams = {
     cfg,
     accountId: matchedAccountId,
     senderName: sender_name,
@@ -1404,14 +4958,27 @@ async function handleInboundWebhook(req: any, res: any) {
     messageId: message_id,
     chatType: isGroup ? "group" : "direct",
     groupSubject: isGroup ? (group_name || channel_id) : undefined,
-    replyTarget,
+    replyTarget: sender_name,
     replyToMessageId: message_id,
     ...(reply_to_message ? {
       replyToBody: reply_to_message.content || "",
       replyToSender: reply_to_message.sender_name || reply_to_message.sender_id || "unknown",
     } : {}),
+    fromHuman: isHumanAuthored(message_metadata),
     displayPrefix: dp,
-  });
+  };
+
+  const debounceMs = isGroup ? 0 : resolveDebounceMs(acct);
+  if (debounceMs > 0) {
+    debounceInbound(matchedAccountId, `dm:${String(sender_name).toLowerCase()}`, acct, debounceMs, params,
+      (items) => void dispatchInbound(mergeDebouncedInbound(items)).catch((err: any) => {
+        console.error(`${whLp} debounced DM delivery failed: ${err.message}`);
+      }));
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true, debounced: true }));
+    return;
+  }
+  await dispatchInbound(params);
 
   res.writeHead(200, { "Content-Type": "application/json" });
   res.end(JSON.stringify({ ok: true }));
@@ -1440,8 +5007,11 @@ Commands:
   Artifacts: artifact-add, artifact-update, artifact-list, artifact-versions
   Profile: profile-update, rename
   Admin: role, ticket-create, rotate-secret, set-thread-mode, show-thread-mode
+  Status: status (connection health, reconnects, last error, last inbound/outbound, thread buffers), presence (which peers are online / last seen; bot_id to look up one)
+  Delivery: outbox (queued/dead-lettered replies), outbox-retry (requeue dead letters), dedup (dropped duplicate inbound messages), rate-limits (inbound rate limit counters)
 
-To send messages, use the message tool: message(action="send", channel="hxa-connect", target="bot_name" or "thread:<id>", message="...")
+To send messages, use the message tool: message(action="send", channel="hxa-connect", target="<target>", message="...")
+Targets: ${TARGET_SYNTAX_HELP} (e.g. "dm:zylos01", "acme/thread:<id>", "new-thread:Q3 review?participants=a,b&tags=x"); a bare bot name or thread topic also works.
 Important: In threads, @mention the target bot in your message text (e.g. "@bot_name hello") — bots in mention mode only receive messages where they are @mentioned.`,
     parameters: {
       type: "object",
@@ -1472,6 +5042,12 @@ Important: In threads, @mention the target bot in your message text (e.g. "@bot_
             "rotate-secret",
             "set-thread-mode",
             "show-thread-mode",
+            "outbox",
+            "outbox-retry",
+            "dedup",
+            "status",
+            "rate-limits",
+            "presence",
           ],
           description: "The HXA-Connect command to execute",
         },
@@ -1532,7 +5108,7 @@ Important: In threads, @mention the target bot in your message text (e.g. "@bot_
         // Thread invite params
         bot_id: {
           type: "string",
-          description: "Bot name or ID (for thread-invite, role)",
+          description: "Bot name or ID (for thread-invite, role, presence)",
         },
         label: {
           type: "string",
@@ -1631,6 +5207,7 @@ Important: In threads, @mention the target bot in your message text (e.g. "@bot_
           // ─── Query ──────────────────────────────────────────
           case "peers": {
             result = await client.listPeers();
+            applyPeerList(resolveAccountId(cfg, params.account), result);
             break;
           }
 
@@ -1876,6 +5453,42 @@ Important: In threads, @mention the target bot in your message text (e.g. "@bot_
               params.thread_id,
               params.thread_mode,
             );
+            // Apply to the running connection right away instead of at the next config poll
+            await reloadAccountConfig(result.accountId, await runtime.config.loadConfig());
+            break;
+          }
+
+          // ─── Delivery ───────────────────────────────────────
+          case "outbox": {
+            result = await getOutboxStatus(resolveAccountId(cfg, params.account));
+            break;
+          }
+
+          case "outbox-retry": {
+            result = await retryDeadLetters(resolveAccountId(cfg, params.account));
+            break;
+          }
+
+          case "dedup": {
+            result = getDedupStats(resolveAccountId(cfg, params.account));
+            break;
+          }
+          case "status": {
+            result = describeAccountHealth(resolveAccountId(cfg, params.account));
+            break;
+          }
+          case "rate-limits": {
+            result = getRateLimitStats(resolveAccountId(cfg, params.account));
+            break;
+          }
+          case "presence": {
+            const accountId = resolveAccountId(cfg, params.account);
+            const dir = getPresenceDirectory(accountId);
+            const maxAge = (acct.presence?.refreshSeconds || DEFAULT_PRESENCE_REFRESH_SEC) * 1000;
+            if (!dir.refreshedAt || Date.now() - dir.refreshedAt > maxAge) {
+              applyPeerList(accountId, await client.listPeers());
+            }
+            result = describePresence(accountId, params.bot_id);
             break;
           }
 
@@ -1913,7 +5526,7 @@ const plugin = {
   id: "hxa-connect",
   name: "HXA-Connect",
   description: "Agent-to-agent messaging via HXA-Connect (WebSocket + webhook)",
-  configSchema: emptyPluginConfigSchema(),
+  configSchema: hxaConnectConfigSchema,
   register(api: OpenClawPluginApi) {
     pluginRuntime = api.runtime;
 
@@ -1932,6 +5545,13 @@ const plugin = {
       }
     })();
 
+    // Validate channel config up front so misconfigured accounts are visible at load time
+    for (const issue of validateHxaConnectConfig(api.config?.channels?.["hxa-connect"])) {
+      const line = `hxa-connect: config ${issue.severity}: ${formatConfigIssue(issue)}`;
+      if (issue.severity === "error") api.logger.error(line);
+      else api.logger.warn(line);
+    }
+
     // Register the channel
     api.registerChannel({ plugin: hxaConnectChannel });
 
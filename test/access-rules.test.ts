@@ -0,0 +1,282 @@
+/**
+ * Tests for pattern-based access control: matchesSenderPattern(),
+ * isDmAllowed(), isThreadAllowed() and isSenderAllowed() with deny lists,
+ * sender IDs, human provenance and tag/topic thread rules.
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface ThreadRule {
+  tags?: string[];
+  topic?: string;
+  deny?: boolean;
+  allowFrom?: string[];
+  denyFrom?: string[];
+}
+
+interface Access {
+  dmPolicy?: "open" | "allowlist";
+  dmAllowFrom?: string[];
+  dmDenyFrom?: string[];
+  groupPolicy?: "open" | "allowlist" | "disabled";
+  threadRules?: ThreadRule[];
+  threadRulesFailOpen?: boolean;
+  threads?: Record<string, { allowFrom?: string[]; denyFrom?: string[] }>;
+}
+
+interface SenderIdentity {
+  name: string;
+  id?: string;
+  metadata?: any;
+}
+
+interface ThreadMeta {
+  topic?: string;
+  tags?: string[];
+}
+
+function parseMetadata(metadata: any): any {
+  if (typeof metadata !== "string") return metadata;
+  try { return JSON.parse(metadata); } catch { return null; }
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  let re = compiledPatterns.get(pattern);
+  if (re !== undefined) return re;
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  try {
+    re = literal
+      ? new RegExp(literal[1], literal[2].replace(/[gy]/g, ""))
+      : new RegExp(
+        `^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+        "i",
+      );
+  } catch {
+    re = null;
+  }
+  compiledPatterns.set(pattern, re);
+  return re;
+}
+
+function matchesPattern(pattern: string, value: string | undefined): boolean {
+  if (value == null) return false;
+  return compilePattern(String(pattern))?.test(value) ?? false;
+}
+
+function matchesSenderPattern(pattern: string, sender: SenderIdentity): boolean {
+  const p = String(pattern);
+  if (p === "*") return true;
+  if (p.startsWith("id:")) return matchesPattern(p.slice(3), sender.id);
+  if (p.startsWith("human:")) {
+    const provenance = parseMetadata(sender.metadata)?.provenance;
+    if (provenance?.authored_by !== "human") return false;
+    return matchesPattern(p.slice(6), String(provenance.owner_name ?? ""));
+  }
+  return matchesPattern(p, sender.name);
+}
+
+function matchesAnySender(patterns: string[] | undefined, sender: SenderIdentity): boolean {
+  return Array.isArray(patterns) && patterns.some((p) => matchesSenderPattern(p, sender));
+}
+
+function asSender(sender: SenderIdentity | string): SenderIdentity {
+  return typeof sender === "string" ? { name: sender } : sender;
+}
+
+function matchingThreadRules(access: Access | undefined, meta: ThreadMeta | null | undefined): ThreadRule[] {
+  const rules = access?.threadRules;
+  if (!Array.isArray(rules) || !rules.length || !meta) return [];
+  return rules.filter((rule) => {
+    if (!rule.tags?.length && !rule.topic) return false;
+    const tagHit = !!rule.tags?.length && (meta.tags || []).some((t) => rule.tags!.some((p) => matchesPattern(p, t)));
+    const topicHit = !!rule.topic && matchesPattern(rule.topic, meta.topic);
+    return tagHit || topicHit;
+  });
+}
+
+function isDmAllowed(access: Access | undefined, senderArg: SenderIdentity | string): boolean {
+  const sender = asSender(senderArg);
+  if (matchesAnySender(access?.dmDenyFrom, sender)) return false;
+  const policy = access?.dmPolicy || "open";
+  if (policy === "open") return true;
+  return matchesAnySender(access?.dmAllowFrom, sender);
+}
+
+function hasThreadDenyRules(access: Access | undefined): boolean {
+  const rules = access?.threadRules;
+  return Array.isArray(rules) && rules.some((r) => (r.tags?.length || r.topic) && (r.deny || r.denyFrom?.length));
+}
+
+function isThreadAllowed(access: Access | undefined, threadId: string, meta?: ThreadMeta | null): boolean {
+  const policy = access?.groupPolicy || "open";
+  if (policy === "disabled") return false;
+  if (meta === null && hasThreadDenyRules(access) && !access?.threadRulesFailOpen) return false;
+  const rules = matchingThreadRules(access, meta);
+  if (rules.some((r) => r.deny)) return false;
+  if (policy === "open") return true;
+  return !!access?.threads?.[threadId] || rules.length > 0;
+}
+
+function isSenderAllowed(
+  access: Access | undefined,
+  threadId: string,
+  senderArg: SenderIdentity | string,
+  meta?: ThreadMeta | null,
+): boolean {
+  const sender = asSender(senderArg);
+  const tt = access?.threads?.[threadId];
+  const rules = matchingThreadRules(access, meta);
+  const deny = [...(tt?.denyFrom || []), ...rules.flatMap((r) => r.denyFrom || [])];
+  if (matchesAnySender(deny, sender)) return false;
+  const af = [
+    ...(Array.isArray(tt?.allowFrom) ? tt.allowFrom : []),
+    ...rules.flatMap((r) => r.allowFrom || []),
+  ];
+  if (af.length === 0) return true;
+  return matchesAnySender(af, sender);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+const human = (owner: string) => ({ provenance: { authored_by: "human", owner_name: owner } });
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("matchesSenderPattern", () => {
+  it("matches plain names case-insensitively and in full", () => {
+    assert.ok(matchesSenderPattern("Zylos01", { name: "zylos01" }));
+    assert.ok(!matchesSenderPattern("zylos", { name: "zylos01" }));
+  });
+
+  it("supports globs", () => {
+    assert.ok(matchesSenderPattern("review-*", { name: "review-bot-7" }));
+    assert.ok(matchesSenderPattern("bot-?", { name: "bot-a" }));
+    assert.ok(!matchesSenderPattern("bot-?", { name: "bot-ab" }));
+  });
+
+  it("treats regex metacharacters in globs literally", () => {
+    assert.ok(matchesSenderPattern("a.b", { name: "a.b" }));
+    assert.ok(!matchesSenderPattern("a.b", { name: "axb" }));
+  });
+
+  it("supports /regex/flags", () => {
+    assert.ok(matchesSenderPattern("/^ops-\\d+$/", { name: "ops-12" }));
+    assert.ok(!matchesSenderPattern("/^ops-\\d+$/", { name: "OPS-12" }));
+    assert.ok(matchesSenderPattern("/^ops-\\d+$/i", { name: "OPS-12" }));
+  });
+
+  it("gives the same answer every time for g/y regexes", () => {
+    for (const pattern of ["/^ops-/g", "/ops/gi", "/^ops-/y"]) {
+      const sender = { name: "ops-1" };
+      assert.deepEqual([1, 2, 3].map(() => matchesSenderPattern(pattern, sender)), [true, true, true], pattern);
+    }
+  });
+
+  it("never matches an invalid regex", () => {
+    assert.ok(!matchesSenderPattern("/([/", { name: "([" }));
+  });
+
+  it("matches sender IDs with id:", () => {
+    const sender = { name: "renamed", id: "agent-123" };
+    assert.ok(matchesSenderPattern("id:agent-123", sender));
+    assert.ok(matchesSenderPattern("id:agent-*", sender));
+    assert.ok(!matchesSenderPattern("id:agent-123", { name: "agent-123" }));
+  });
+
+  it("matches human provenance with human:", () => {
+    const sender = { name: "relay-bot", metadata: human("Alice") };
+    assert.ok(matchesSenderPattern("human:*", sender));
+    assert.ok(matchesSenderPattern("human:alice", sender));
+    assert.ok(!matchesSenderPattern("human:bob", sender));
+    assert.ok(!matchesSenderPattern("human:*", { name: "relay-bot" }));
+  });
+
+  it("reads provenance from string metadata", () => {
+    const sender = { name: "relay-bot", metadata: JSON.stringify(human("Alice")) };
+    assert.ok(matchesSenderPattern("human:Alice", sender));
+  });
+});
+
+describe("isDmAllowed", () => {
+  it("keeps exact-name allowlists working", () => {
+    const access: Access = { dmPolicy: "allowlist", dmAllowFrom: ["zylos01"] };
+    assert.ok(isDmAllowed(access, "zylos01"));
+    assert.ok(!isDmAllowed(access, "other"));
+  });
+
+  it("lets deny lists override an open policy", () => {
+    const access: Access = { dmPolicy: "open", dmDenyFrom: ["spam-*"] };
+    assert.ok(!isDmAllowed(access, "spam-bot"));
+    assert.ok(isDmAllowed(access, "friend"));
+  });
+
+  it("lets deny lists override allows", () => {
+    const access: Access = { dmPolicy: "allowlist", dmAllowFrom: ["team-*"], dmDenyFrom: ["team-intern"] };
+    assert.ok(isDmAllowed(access, "team-lead"));
+    assert.ok(!isDmAllowed(access, "team-intern"));
+  });
+
+  it("allows humans through any relay bot", () => {
+    const access: Access = { dmPolicy: "allowlist", dmAllowFrom: ["human:*"] };
+    assert.ok(isDmAllowed(access, { name: "relay", metadata: human("Alice") }));
+    assert.ok(!isDmAllowed(access, { name: "relay" }));
+  });
+});
+
+describe("thread rules", () => {
+  const access: Access = {
+    groupPolicy: "allowlist",
+    threads: { t1: { allowFrom: ["lead"] } },
+    threadRules: [
+      { tags: ["review-*"], allowFrom: ["reviewer-*"] },
+      { topic: "*incident*", denyFrom: ["intern-*"] },
+      { tags: ["secret"], deny: true },
+    ],
+  };
+
+  it("allows threads by ID or by a matching rule under allowlist", () => {
+    assert.ok(isThreadAllowed(access, "t1"));
+    assert.ok(isThreadAllowed(access, "t2", { tags: ["review-q3"] }));
+    assert.ok(isThreadAllowed(access, "t3", { topic: "Incident 42 follow-up" }));
+    assert.ok(!isThreadAllowed(access, "t4", { topic: "lunch", tags: ["misc"] }));
+    assert.ok(!isThreadAllowed(access, "t4", null));
+  });
+
+  it("rejects threads whose metadata lookup failed when a deny rule depends on it", () => {
+    const open: Access = { groupPolicy: "open", threadRules: [{ tags: ["secret"], deny: true }] };
+    assert.ok(!isThreadAllowed(open, "t9", null));
+    assert.ok(isThreadAllowed({ ...open, threadRulesFailOpen: true }, "t9", null));
+    assert.ok(!isThreadAllowed({ groupPolicy: "open", threadRules: [{ topic: "*", denyFrom: ["x"] }] }, "t9", null));
+    assert.ok(isThreadAllowed({ groupPolicy: "open", threadRules: [{ tags: ["review"], allowFrom: ["x"] }] }, "t9", null));
+  });
+
+  it("denies threads matched by a deny rule, even when listed by ID", () => {
+    assert.ok(!isThreadAllowed(access, "t1", { tags: ["secret"] }));
+    assert.ok(!isThreadAllowed({ ...access, groupPolicy: "open" }, "t9", { tags: ["secret"] }));
+  });
+
+  it("combines per-thread and rule sender lists", () => {
+    const meta = { tags: ["review-q3"] };
+    assert.ok(isSenderAllowed(access, "t1", "lead", meta));
+    assert.ok(isSenderAllowed(access, "t1", "reviewer-2", meta));
+    assert.ok(!isSenderAllowed(access, "t1", "random", meta));
+  });
+
+  it("applies rule deny lists", () => {
+    const meta = { topic: "incident review" };
+    assert.ok(!isSenderAllowed(access, "t5", "intern-3", meta));
+    assert.ok(isSenderAllowed(access, "t5", "oncall", meta));
+  });
+
+  it("ignores rules without tags or topic", () => {
+    assert.deepEqual(matchingThreadRules({ threadRules: [{ deny: true }] }, { topic: "x" }), []);
+  });
+});
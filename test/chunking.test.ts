@@ -0,0 +1,102 @@
+/**
+ * Tests for markdown-aware outbound chunking: chunkOutboundText().
+ *
+ * This function is module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+const CHUNK_RESERVE = 32;
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+
+function chunkOutboundText(text: string, limit: number): string[] {
+  if (text.length <= limit) return [text];
+  const budget = Math.max(limit - CHUNK_RESERVE, 1);
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > budget) {
+    const window = rest.slice(0, budget + 1);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < budget * 0.5) cut = window.lastIndexOf("\n");
+    if (cut < budget * 0.3) cut = window.lastIndexOf(" ");
+    if (cut < budget * 0.3) cut = budget;
+    let chunk = rest.slice(0, cut).replace(/\s+$/, "");
+    rest = rest.slice(cut).replace(/^\n+/, "");
+
+    // Fence still open at the end of this chunk?
+    let open: string | null = null;
+    for (const line of chunk.split("\n")) {
+      const fence = FENCE_RE.exec(line)?.[1];
+      if (!fence) continue;
+      if (!open) open = line.trim();
+      else if (fence[0] === open[0] && fence.length >= /^(`+|~+)/.exec(open)![1].length) open = null;
+    }
+    if (open) {
+      chunk += `\n${/^(`+|~+)/.exec(open)![1]}`;
+      if (open.length < budget / 4) rest = `${open}\n${rest}`;
+    }
+    if (chunk) chunks.push(chunk);
+  }
+  if (rest.trim()) chunks.push(rest);
+  return chunks.length > 1 ? chunks.map((c, i) => `${c}\n\n(${i + 1}/${chunks.length})`) : chunks;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+function fenceCount(chunk: string): number {
+  return chunk.split("\n").filter((l) => FENCE_RE.test(l)).length;
+}
+
+function paragraph(n: number, words = 20): string {
+  return Array.from({ length: words }, (_, i) => `p${n}w${i}`).join(" ");
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("chunkOutboundText", () => {
+  it("leaves short text alone", () => {
+    assert.deepEqual(chunkOutboundText("hello", 100), ["hello"]);
+  });
+
+  it("splits on paragraph boundaries and numbers the parts", () => {
+    const text = [paragraph(1), paragraph(2), paragraph(3)].join("\n\n");
+    const chunks = chunkOutboundText(text, 200);
+    assert.ok(chunks.length > 1);
+    chunks.forEach((c, i) => {
+      assert.ok(c.length <= 200, `chunk ${i} is ${c.length} chars`);
+      assert.ok(c.endsWith(`(${i + 1}/${chunks.length})`));
+    });
+    assert.ok(chunks[0].startsWith(paragraph(1)));
+    assert.ok(chunks[1].startsWith(paragraph(2)));
+  });
+
+  it("keeps code fences balanced across chunks", () => {
+    const code = Array.from({ length: 40 }, (_, i) => `const v${i} = ${i};`).join("\n");
+    const text = `Review:\n\n\`\`\`ts\n${code}\n\`\`\`\n\nDone.`;
+    const chunks = chunkOutboundText(text, 300);
+    assert.ok(chunks.length > 2);
+    for (const c of chunks) {
+      assert.equal(fenceCount(c) % 2, 0, `unbalanced chunk:\n${c}`);
+      assert.ok(c.length <= 300);
+    }
+    assert.ok(chunks[1].startsWith("```ts\n"));
+  });
+
+  it("hard-splits text without whitespace", () => {
+    const chunks = chunkOutboundText("x".repeat(500), 200);
+    assert.equal(chunks.map((c) => c.replace(/\n\n\(\d+\/\d+\)$/, "")).join(""), "x".repeat(500));
+  });
+
+  it("does not lose content", () => {
+    const text = [paragraph(1, 50), paragraph(2, 5), paragraph(3, 60)].join("\n\n");
+    const words = chunkOutboundText(text, 150)
+      .map((c) => c.replace(/\n\n\(\d+\/\d+\)$/, ""))
+      .join(" ")
+      .split(/\s+/);
+    assert.deepEqual(words, text.split(/\s+/));
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the bot-to-bot loop guard: recordInboundTurn(),
+ * recordOutboundTurn() and loopPausedUntil().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface Acct {
+  loopGuard?: {
+    enabled?: boolean;
+    maxTurns?: number;
+    windowSeconds?: number;
+    pauseSeconds?: number;
+  };
+}
+
+interface LoopTrack {
+  inbound: number[];
+  outbound: number[];
+  pausedUntil: number;
+}
+
+type LoopVerdict = "ok" | "tripped" | "paused";
+
+const DEFAULT_LOOP_MAX_TURNS = 10;
+const DEFAULT_LOOP_WINDOW_SEC = 300;
+const DEFAULT_LOOP_PAUSE_SEC = 600;
+
+const loopTracks = new Map<string, Map<string, LoopTrack>>();
+
+function loopKey(target: string): string {
+  return /^thread:/i.test(target) ? `thread:${target.slice("thread:".length)}` : target.toLowerCase();
+}
+
+function getLoopTrack(accountId: string, key: string): LoopTrack {
+  let tracks = loopTracks.get(accountId);
+  if (!tracks) {
+    tracks = new Map();
+    loopTracks.set(accountId, tracks);
+  }
+  let track = tracks.get(key);
+  if (!track) {
+    track = { inbound: [], outbound: [], pausedUntil: 0 };
+    tracks.set(key, track);
+  }
+  return track;
+}
+
+function pruneLoopTrack(track: LoopTrack, windowMs: number, now: number): void {
+  track.inbound = track.inbound.filter((t) => now - t < windowMs);
+  track.outbound = track.outbound.filter((t) => now - t < windowMs);
+}
+
+function recordInboundTurn(
+  accountId: string,
+  acct: Acct,
+  target: string,
+  fromHuman: boolean,
+  now: number = Date.now(),
+): LoopVerdict {
+  const cfg = acct.loopGuard;
+  if (cfg?.enabled === false) return "ok";
+  const track = getLoopTrack(accountId, loopKey(target));
+  if (fromHuman) {
+    track.inbound = [];
+    track.outbound = [];
+    track.pausedUntil = 0;
+    return "ok";
+  }
+  if (track.pausedUntil > now) return "paused";
+
+  const windowMs = (cfg?.windowSeconds ?? DEFAULT_LOOP_WINDOW_SEC) * 1000;
+  const maxTurns = cfg?.maxTurns ?? DEFAULT_LOOP_MAX_TURNS;
+  pruneLoopTrack(track, windowMs, now);
+  track.inbound.push(now);
+  if (track.inbound.length >= maxTurns && track.outbound.length >= maxTurns) {
+    track.pausedUntil = now + (cfg?.pauseSeconds ?? DEFAULT_LOOP_PAUSE_SEC) * 1000;
+    track.inbound = [];
+    track.outbound = [];
+    return "tripped";
+  }
+  return "ok";
+}
+
+function recordOutboundTurn(accountId: string, acct: Acct, target: string, now: number = Date.now()): void {
+  if (acct.loopGuard?.enabled === false) return;
+  const track = getLoopTrack(accountId, loopKey(target));
+  pruneLoopTrack(track, (acct.loopGuard?.windowSeconds ?? DEFAULT_LOOP_WINDOW_SEC) * 1000, now);
+  track.outbound.push(now);
+}
+
+function loopPausedUntil(accountId: string, acct: Acct, target: string, now: number = Date.now()): number {
+  if (acct.loopGuard?.enabled === false) return 0;
+  const until = loopTracks.get(accountId)?.get(loopKey(target))?.pausedUntil ?? 0;
+  return until > now ? until : 0;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+const T0 = 1_760_000_000_000;
+
+/** Simulate `n` round trips (peer message in, our reply out), `gapMs` apart. */
+function pingPong(acct: Acct, target: string, n: number, gapMs: number, start = T0): LoopVerdict[] {
+  const verdicts: LoopVerdict[] = [];
+  for (let i = 0; i < n; i++) {
+    const t = start + i * gapMs;
+    verdicts.push(recordInboundTurn("a", acct, target, false, t));
+    recordOutboundTurn("a", acct, target, t + 10);
+  }
+  return verdicts;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("loop guard", () => {
+  beforeEach(() => loopTracks.clear());
+
+  it("trips after maxTurns round trips within the window", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 3 } };
+    const verdicts = pingPong(acct, "zylos01", 4, 1000);
+    // Third inbound sees only 2 outbound replies so far; fourth trips
+    assert.deepEqual(verdicts, ["ok", "ok", "ok", "tripped"]);
+  });
+
+  it("pauses delivery and replies after tripping", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 2, pauseSeconds: 60 } };
+    pingPong(acct, "zylos01", 3, 1000);
+    const now = T0 + 5000;
+    assert.equal(recordInboundTurn("a", acct, "zylos01", false, now), "paused");
+    assert.ok(loopPausedUntil("a", acct, "zylos01", now) > now);
+  });
+
+  it("lifts the pause once it expires", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 2, pauseSeconds: 60 } };
+    pingPong(acct, "zylos01", 3, 1000);
+    const later = T0 + 2000 + 61_000;
+    assert.equal(loopPausedUntil("a", acct, "zylos01", later), 0);
+    assert.equal(recordInboundTurn("a", acct, "zylos01", false, later), "ok");
+  });
+
+  it("does not trip when exchanges are spread beyond the window", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 3, windowSeconds: 10 } };
+    const verdicts = pingPong(acct, "zylos01", 10, 6000);
+    assert.ok(verdicts.every((v) => v === "ok"));
+  });
+
+  it("does not trip on one-way traffic", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 2 } };
+    for (let i = 0; i < 10; i++) {
+      assert.equal(recordInboundTurn("a", acct, "thread:t1", false, T0 + i), "ok");
+    }
+  });
+
+  it("human-authored messages reset history and lift a pause", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 2 } };
+    pingPong(acct, "thread:t1", 3, 1000);
+    assert.ok(loopPausedUntil("a", acct, "thread:t1", T0 + 3000) > 0);
+    assert.equal(recordInboundTurn("a", acct, "thread:t1", true, T0 + 3000), "ok");
+    assert.equal(loopPausedUntil("a", acct, "thread:t1", T0 + 3000), 0);
+  });
+
+  it("tracks conversations independently", () => {
+    const acct: Acct = { loopGuard: { maxTurns: 2 } };
+    pingPong(acct, "thread:t1", 3, 1000);
+    assert.equal(loopPausedUntil("a", acct, "thread:t2", T0 + 3000), 0);
+    assert.equal(loopPausedUntil("a", acct, "zylos01", T0 + 3000), 0);
+  });
+
+  it("normalizes DM peer names and thread prefixes", () => {
+    assert.equal(loopKey("Zylos01"), "zylos01");
+    assert.equal(loopKey("THREAD:AbC"), "thread:AbC");
+  });
+
+  it("is a no-op when disabled", () => {
+    const acct: Acct = { loopGuard: { enabled: false, maxTurns: 1 } };
+    const verdicts = pingPong(acct, "zylos01", 5, 10);
+    assert.ok(verdicts.every((v) => v === "ok"));
+    assert.equal(loopPausedUntil("a", acct, "zylos01", T0), 0);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for `new-thread:` targets: parseNewThreadTarget() and
+ * withParticipantMentions().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+const NEW_THREAD_TARGET_RE = /^new-thread:/i;
+
+interface NewThreadTarget {
+  topic: string;
+  tags: string[];
+  participants: string[];
+}
+
+function parseNewThreadTarget(raw: string): NewThreadTarget {
+  let topic = raw.trim().replace(NEW_THREAD_TARGET_RE, "");
+  let query = "";
+  const q = topic.lastIndexOf("?");
+  if (q >= 0 && /^\w+=[^&]*(?:&\w+=[^&]*)*$/.test(topic.slice(q + 1))) {
+    query = topic.slice(q + 1);
+    topic = topic.slice(0, q);
+  }
+  topic = topic.trim();
+  if (!topic) throw new Error(`Invalid HXA-Connect target "${raw}": new-thread needs a topic`);
+  const params = new URLSearchParams(query);
+  for (const key of params.keys()) {
+    if (key !== "tags" && key !== "participants") {
+      throw new Error(`Invalid HXA-Connect target "${raw}": unknown new-thread option "${key}" (tags, participants)`);
+    }
+  }
+  const list = (key: string) =>
+    [...new Set(params.getAll(key).flatMap((v) => v.split(",")).map((v) => v.trim().replace(/^@/, "")).filter(Boolean))];
+  return { topic, tags: list("tags"), participants: list("participants") };
+}
+
+function withParticipantMentions(text: string, participants: string[]): string {
+  const mentioned = new Set([...text.matchAll(/@([^\s@,.;:!?()]+)/g)].map((m) => m[1].toLowerCase()));
+  const missing = participants.filter((name) => !mentioned.has(name.toLowerCase()));
+  return missing.length ? `${missing.map((name) => `@${name}`).join(" ")} ${text}` : text;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("parseNewThreadTarget", () => {
+  it("parses topic, tags and participants", () => {
+    assert.deepEqual(parseNewThreadTarget("new-thread:Review the Q3 report?tags=request,finance&participants=@alice,bob"), {
+      topic: "Review the Q3 report",
+      tags: ["request", "finance"],
+      participants: ["alice", "bob"],
+    });
+  });
+
+  it("accepts a bare topic, including one ending in a question mark", () => {
+    assert.deepEqual(parseNewThreadTarget("New-Thread: Ship it?"), { topic: "Ship it?", tags: [], participants: [] });
+  });
+
+  it("merges repeated options and drops duplicates", () => {
+    const spec = parseNewThreadTarget("new-thread:x?participants=a&participants=b,a");
+    assert.deepEqual(spec.participants, ["a", "b"]);
+  });
+
+  it("rejects a missing topic and unknown options", () => {
+    assert.throws(() => parseNewThreadTarget("new-thread:?participants=a"), /needs a topic/);
+    assert.throws(() => parseNewThreadTarget("new-thread:x?invite=a"), /unknown new-thread option "invite"/);
+  });
+});
+
+describe("withParticipantMentions", () => {
+  it("prefixes mentions for participants not yet mentioned", () => {
+    assert.equal(withParticipantMentions("@alice please review", ["alice", "bob"]), "@bob @alice please review");
+  });
+
+  it("matches existing mentions case-insensitively", () => {
+    assert.equal(withParticipantMentions("Thanks @Bob.", ["bob"]), "Thanks @Bob.");
+  });
+
+  it("leaves text alone without participants", () => {
+    assert.equal(withParticipantMentions("hello", []), "hello");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for outbound message formatting: looksLikeMarkdown(),
+ * resolveContentType() and normalizeOutboundParts().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+type OutboundContentType = "text" | "markdown";
+
+interface Acct {
+  outbound?: { format?: "auto" | "text" | "markdown" };
+}
+
+const MARKDOWN_PATTERNS: RegExp[] = [
+  /^#{1,6}\s+\S/m, // heading
+  /^```/m, // fenced code
+  /`[^`\n]+`/, // inline code
+  /\*\*[^*\n]+\*\*|__[^_\n]+__/, // bold
+  /\[[^\]\n]+\]\([^)\s]+\)/, // link
+  /^\s*(?:[-*+]|\d+\.)\s+\S.*\n\s*(?:[-*+]|\d+\.)\s+\S/m, // list (2+ items)
+  /^>\s/m, // blockquote
+  /^\|.*\|\s*\n\|?\s*:?-{3,}/m, // table
+];
+
+function looksLikeMarkdown(text: string): boolean {
+  return MARKDOWN_PATTERNS.some((re) => re.test(text));
+}
+
+function resolveContentType(acct: Acct, text: string, explicit?: OutboundContentType): OutboundContentType {
+  if (explicit) return explicit;
+  const format = acct.outbound?.format ?? "auto";
+  if (format !== "auto") return format;
+  return looksLikeMarkdown(text) ? "markdown" : "text";
+}
+
+const OUTBOUND_PART_TYPES = new Set(["text", "markdown", "json", "link", "image", "file"]);
+
+function normalizeOutboundParts(parts: unknown): any[] {
+  if (!Array.isArray(parts)) return [];
+  return parts.filter((p: any) => {
+    if (!p || typeof p !== "object" || !OUTBOUND_PART_TYPES.has(p.type)) return false;
+    if (p.type === "text" || p.type === "markdown") return typeof p.content === "string";
+    if (p.type === "json") return p.content !== undefined;
+    return typeof p.url === "string" && p.url.length > 0;
+  });
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("looksLikeMarkdown", () => {
+  it("detects common markdown", () => {
+    assert.ok(looksLikeMarkdown("## Summary\nAll good"));
+    assert.ok(looksLikeMarkdown("This is **important**"));
+    assert.ok(looksLikeMarkdown("Run `npm test` first"));
+    assert.ok(looksLikeMarkdown("```ts\nconst x = 1;\n```"));
+    assert.ok(looksLikeMarkdown("See [the docs](https://example.com)"));
+    assert.ok(looksLikeMarkdown("Steps:\n- one\n- two"));
+    assert.ok(looksLikeMarkdown("| a | b |\n|---|---|\n| 1 | 2 |"));
+  });
+
+  it("leaves plain text alone", () => {
+    assert.ok(!looksLikeMarkdown("Hello! Done at 5*3 = 15."));
+    assert.ok(!looksLikeMarkdown("#hashtag and a single - dash"));
+    assert.ok(!looksLikeMarkdown("1. only one numbered line"));
+    assert.ok(!looksLikeMarkdown("see https://example.com"));
+  });
+});
+
+describe("resolveContentType", () => {
+  it("auto-detects by default", () => {
+    assert.equal(resolveContentType({}, "**hi**"), "markdown");
+    assert.equal(resolveContentType({}, "hi"), "text");
+  });
+
+  it("honors the account format and explicit overrides", () => {
+    assert.equal(resolveContentType({ outbound: { format: "text" } }, "**hi**"), "text");
+    assert.equal(resolveContentType({ outbound: { format: "markdown" } }, "hi"), "markdown");
+    assert.equal(resolveContentType({ outbound: { format: "markdown" } }, "hi", "text"), "text");
+  });
+});
+
+describe("normalizeOutboundParts", () => {
+  it("keeps well-formed parts", () => {
+    const parts = [
+      { type: "json", content: { ok: true } },
+      { type: "markdown", content: "# hi" },
+      { type: "link", url: "https://example.com", title: "Example" },
+      { type: "file", url: "/api/files/abc", name: "a.txt" },
+    ];
+    assert.deepEqual(normalizeOutboundParts(parts), parts);
+  });
+
+  it("drops malformed and unknown parts", () => {
+    const parts = [
+      null,
+      "text",
+      { type: "video", url: "https://example.com/v.mp4" },
+      { type: "text" },
+      { type: "json" },
+      { type: "image", url: "" },
+    ];
+    assert.deepEqual(normalizeOutboundParts(parts), []);
+    assert.deepEqual(normalizeOutboundParts({ type: "json", content: 1 }), []);
+  });
+});
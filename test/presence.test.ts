@@ -0,0 +1,163 @@
+/**
+ * Tests for the peer presence directory: recordPresence(), applyPeerList(),
+ * lookupPeer(), formatAgo() and peerStatusHint().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing (persistence and refresh timers omitted).
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface PeerPresence {
+  name: string;
+  id?: string;
+  online: boolean;
+  lastSeenAt?: number;
+  updatedAt: number;
+}
+
+interface PresenceConfig {
+  enabled?: boolean;
+  hint?: boolean;
+}
+
+const MAX_PRESENCE_PEERS = 2000;
+const directories = new Map<string, { peers: Map<string, PeerPresence>; refreshedAt?: number }>();
+
+function getPresenceDirectory(accountId: string) {
+  let dir = directories.get(accountId);
+  if (!dir) {
+    dir = { peers: new Map() };
+    directories.set(accountId, dir);
+  }
+  return dir;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  const ms = typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+function recordPresence(accountId: string, bot: any, online: boolean, lastSeenAt?: number): void {
+  const name = bot?.name ?? bot?.bot_name;
+  if (!name) return;
+  const dir = getPresenceDirectory(accountId);
+  const key = String(name).toLowerCase();
+  const prev = dir.peers.get(key);
+  dir.peers.delete(key);
+  dir.peers.set(key, {
+    name: String(name),
+    id: bot.id ?? bot.bot_id ?? prev?.id,
+    online,
+    lastSeenAt: lastSeenAt ?? (online ? Date.now() : prev?.lastSeenAt),
+    updatedAt: Date.now(),
+  });
+  if (dir.peers.size > MAX_PRESENCE_PEERS) dir.peers.delete(dir.peers.keys().next().value!);
+}
+
+function applyPeerList(accountId: string, result: any): void {
+  const peers: any[] = Array.isArray(result) ? result : (result?.peers || result?.bots || []);
+  for (const peer of peers) {
+    const online = typeof peer.online === "boolean" ? peer.online : peer.status === "online";
+    recordPresence(accountId, peer, online, parseTimestamp(peer.last_seen_at ?? peer.last_seen) ?? (online ? Date.now() : undefined));
+  }
+  getPresenceDirectory(accountId).refreshedAt = Date.now();
+}
+
+function lookupPeer(accountId: string, nameOrId: string): PeerPresence | undefined {
+  const dir = directories.get(accountId);
+  if (!dir) return undefined;
+  const byName = dir.peers.get(nameOrId.toLowerCase());
+  if (byName) return byName;
+  for (const peer of dir.peers.values()) if (peer.id === nameOrId) return peer;
+  return undefined;
+}
+
+function formatAgo(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} minute(s) ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour(s) ago`;
+  return `${Math.round(hours / 24)} day(s) ago`;
+}
+
+function peerStatusHint(accountId: string, presence: PresenceConfig | undefined, target: string): string | undefined {
+  if (presence?.enabled === false || presence?.hint === false) return undefined;
+  if (/^(thread|channel):/i.test(target)) return undefined;
+  const peer = lookupPeer(accountId, target);
+  if (!peer || peer.online) return undefined;
+  const seen = peer.lastSeenAt ? `last seen ${formatAgo(Date.now() - peer.lastSeenAt)}` : "last seen unknown";
+  return `<peer-status>\n${peer.name} is offline (${seen}). The message is delivered, but a reply may not come until it reconnects.\n</peer-status>`;
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("presence directory", () => {
+  beforeEach(() => directories.clear());
+
+  it("accepts the array, {peers} and {bots} listPeers shapes", () => {
+    applyPeerList("a", [{ name: "one", online: true }]);
+    applyPeerList("a", { peers: [{ name: "two", status: "online" }] });
+    applyPeerList("a", { bots: [{ bot_name: "three", bot_id: "b3", status: "offline" }] });
+    assert.equal(lookupPeer("a", "one")?.online, true);
+    assert.equal(lookupPeer("a", "two")?.online, true);
+    assert.equal(lookupPeer("a", "b3")?.name, "three");
+    assert.equal(lookupPeer("a", "three")?.online, false);
+  });
+
+  it("looks peers up case-insensitively and keeps accounts apart", () => {
+    recordPresence("a", { name: "Zylos01", id: "z1" }, true);
+    assert.equal(lookupPeer("a", "zylos01")?.id, "z1");
+    assert.equal(lookupPeer("b", "zylos01"), undefined);
+  });
+
+  it("keeps the last online time when a peer goes offline without a timestamp", () => {
+    recordPresence("a", { name: "bot", id: "x" }, true, 1000);
+    recordPresence("a", { name: "bot" }, false);
+    const peer = lookupPeer("a", "bot")!;
+    assert.equal(peer.online, false);
+    assert.equal(peer.lastSeenAt, 1000);
+    assert.equal(peer.id, "x");
+  });
+
+  it("parses last_seen_at timestamps", () => {
+    applyPeerList("a", [{ name: "bot", online: false, last_seen_at: "2026-01-01T00:00:00Z" }]);
+    assert.equal(lookupPeer("a", "bot")?.lastSeenAt, Date.parse("2026-01-01T00:00:00Z"));
+  });
+});
+
+describe("formatAgo", () => {
+  it("picks a readable unit", () => {
+    assert.equal(formatAgo(10_000), "just now");
+    assert.equal(formatAgo(5 * 60_000), "5 minute(s) ago");
+    assert.equal(formatAgo(3 * 3600_000), "3 hour(s) ago");
+    assert.equal(formatAgo(3 * 86400_000), "3 day(s) ago");
+  });
+});
+
+describe("peerStatusHint", () => {
+  beforeEach(() => directories.clear());
+
+  it("hints only for known offline DM peers", () => {
+    recordPresence("a", { name: "up" }, true);
+    recordPresence("a", { name: "down" }, false, Date.now() - 2 * 3600_000);
+    assert.equal(peerStatusHint("a", undefined, "up"), undefined);
+    assert.equal(peerStatusHint("a", undefined, "unknown"), undefined);
+    assert.equal(peerStatusHint("a", undefined, "thread:down"), undefined);
+    assert.equal(peerStatusHint("a", undefined, "channel:down"), undefined);
+    const hint = peerStatusHint("a", undefined, "down")!;
+    assert.match(hint, /^<peer-status>\ndown is offline \(last seen 2 hour\(s\) ago\)/);
+  });
+
+  it("can be turned off", () => {
+    recordPresence("a", { name: "down" }, false);
+    assert.equal(peerStatusHint("a", { hint: false }, "down"), undefined);
+    assert.equal(peerStatusHint("a", { enabled: false }, "down"), undefined);
+    assert.match(peerStatusHint("a", {}, "down")!, /last seen unknown/);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for inbound rate limiting: acquireInboundTokens() token buckets and
+ * coalesceInbound() batching.
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+type RateScope = "sender" | "thread" | "account";
+
+interface RateBucketConfig {
+  perMinute?: number;
+  burst?: number;
+}
+
+interface Acct {
+  rateLimit?: { perSender?: RateBucketConfig; perThread?: RateBucketConfig; perAccount?: RateBucketConfig };
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Inbound {
+  senderId: string;
+  content: string;
+  fromHuman?: boolean;
+}
+
+const RATE_LIMIT_DEFAULTS: Record<RateScope, number> = { sender: 20, thread: 30, account: 120 };
+const rateBuckets = new Map<string, Map<string, TokenBucket>>();
+
+function bucketConfig(acct: Acct, scope: RateScope): { perMinute: number; burst: number } {
+  const cfg = scope === "sender" ? acct.rateLimit?.perSender
+    : scope === "thread" ? acct.rateLimit?.perThread
+    : acct.rateLimit?.perAccount;
+  const perMinute = cfg?.perMinute ?? RATE_LIMIT_DEFAULTS[scope];
+  return { perMinute, burst: cfg?.burst ?? perMinute };
+}
+
+function acquireInboundTokens(
+  accountId: string,
+  acct: Acct,
+  senderId: string,
+  threadId: string | undefined,
+  now: number = Date.now(),
+): { ok: true } | { ok: false; scope: RateScope; waitMs: number } {
+  let buckets = rateBuckets.get(accountId);
+  if (!buckets) {
+    buckets = new Map();
+    rateBuckets.set(accountId, buckets);
+  }
+  const scopes: [RateScope, string][] = [["sender", `sender:${senderId.toLowerCase()}`], ["account", "account"]];
+  if (threadId) scopes.splice(1, 0, ["thread", `thread:${threadId}`]);
+
+  const entries = scopes.map(([scope, key]) => {
+    const { perMinute, burst } = bucketConfig(acct, scope);
+    const bucket = buckets!.get(key) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60_000);
+    bucket.updatedAt = now;
+    buckets!.set(key, bucket);
+    return { scope, bucket, perMinute };
+  });
+  const empty = entries.find((e) => e.bucket.tokens < 1);
+  if (empty) {
+    const waitMs = Math.ceil(((1 - empty.bucket.tokens) * 60_000) / Math.max(empty.perMinute, 0.001));
+    return { ok: false, scope: empty.scope, waitMs };
+  }
+  for (const e of entries) e.bucket.tokens -= 1;
+  return { ok: true };
+}
+
+function coalesceInbound(messages: Inbound[], dropped = 0): Inbound {
+  const last = messages[messages.length - 1];
+  if (messages.length === 1 && !dropped) return last;
+  const body = messages.map((m) => m.content).join("\n\n---\n\n");
+  const droppedNote = dropped ? ` ${dropped} older message(s) were dropped because the queue was full.` : "";
+  return {
+    ...last,
+    content:
+      `<rate-limited>\n${messages.length} messages were batched into one delivery because of inbound rate limits.${droppedNote}\n` +
+      `</rate-limited>\n\n${body}`,
+    fromHuman: messages.some((m) => m.fromHuman),
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("acquireInboundTokens", () => {
+  beforeEach(() => rateBuckets.clear());
+
+  it("allows a burst up to the bucket size, then refuses", () => {
+    const acct: Acct = { rateLimit: { perSender: { perMinute: 60, burst: 3 } } };
+    for (let i = 0; i < 3; i++) assert.ok(acquireInboundTokens("a", acct, "bot", undefined, 0).ok);
+    const verdict = acquireInboundTokens("a", acct, "bot", undefined, 0);
+    assert.deepEqual(verdict, { ok: false, scope: "sender", waitMs: 1000 });
+  });
+
+  it("refills over time", () => {
+    const acct: Acct = { rateLimit: { perSender: { perMinute: 60, burst: 1 } } };
+    assert.ok(acquireInboundTokens("a", acct, "bot", undefined, 0).ok);
+    assert.ok(!acquireInboundTokens("a", acct, "bot", undefined, 500).ok);
+    assert.ok(acquireInboundTokens("a", acct, "bot", undefined, 1000).ok);
+  });
+
+  it("keeps senders apart but shares the thread bucket", () => {
+    const acct: Acct = { rateLimit: { perSender: { perMinute: 1 }, perThread: { perMinute: 2 } } };
+    assert.ok(acquireInboundTokens("a", acct, "bot1", "t1", 0).ok);
+    assert.ok(acquireInboundTokens("a", acct, "bot2", "t1", 0).ok);
+    const verdict = acquireInboundTokens("a", acct, "bot3", "t1", 0);
+    assert.equal(verdict.ok, false);
+    assert.equal(!verdict.ok && verdict.scope, "thread");
+    assert.ok(acquireInboundTokens("a", acct, "bot3", "t2", 0).ok);
+  });
+
+  it("takes no tokens when any bucket refuses", () => {
+    const acct: Acct = { rateLimit: { perSender: { perMinute: 5 }, perAccount: { perMinute: 1 } } };
+    assert.ok(acquireInboundTokens("a", acct, "bot1", undefined, 0).ok);
+    assert.ok(!acquireInboundTokens("a", acct, "bot2", undefined, 0).ok);
+    assert.equal(rateBuckets.get("a")!.get("sender:bot2")!.tokens, 5);
+  });
+
+  it("applies the account bucket per account", () => {
+    const acct: Acct = { rateLimit: { perAccount: { perMinute: 1 } } };
+    assert.ok(acquireInboundTokens("a", acct, "bot", undefined, 0).ok);
+    assert.ok(acquireInboundTokens("b", acct, "bot", undefined, 0).ok);
+  });
+});
+
+describe("coalesceInbound", () => {
+  it("passes a single message through unchanged", () => {
+    const m = { senderId: "s", content: "hi" };
+    assert.equal(coalesceInbound([m]), m);
+  });
+
+  it("batches contents under a notice and keeps human provenance", () => {
+    const merged = coalesceInbound([
+      { senderId: "s", content: "one", fromHuman: true },
+      { senderId: "s", content: "two" },
+    ]);
+    assert.match(merged.content, /^<rate-limited>\n2 messages were batched/);
+    assert.ok(merged.content.endsWith("one\n\n---\n\ntwo"));
+    assert.equal(merged.fromHuman, true);
+  });
+
+  it("reports messages dropped from a full queue", () => {
+    const merged = coalesceInbound([{ senderId: "s", content: "latest" }], 7);
+    assert.match(merged.content, /^<rate-limited>\n1 messages were batched into one delivery because of inbound rate limits\. 7 older message\(s\) were dropped/);
+    assert.ok(merged.content.endsWith("latest"));
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for the outbound target grammar: splitAccountTarget(),
+ * isWellFormedTarget() (backs `looksLikeId`, including `new-thread:` targets)
+ * and suggestTargets().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing. Accounts and the peer/thread directory are
+ * passed in directly.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+const CHANNEL_ID_RE = /^[a-zA-Z0-9_-]{1,64}$/;
+const EXPLICIT_TARGET_RE = /^(dm|thread|channel):(.*)$/i;
+const NEW_THREAD_TARGET_RE = /^new-thread:/i;
+const ACCOUNT_TARGET_RE = /^([\w-]+)\/(.+)$/;
+
+function splitAccountTarget(accounts: string[], accountId: string, raw: string): { accountId: string; target: string } {
+  const target = raw.trim();
+  const prefixed = ACCOUNT_TARGET_RE.exec(target);
+  if (prefixed) {
+    if (accounts.includes(prefixed[1])) return { accountId: prefixed[1], target: prefixed[2] };
+    if (EXPLICIT_TARGET_RE.test(prefixed[2]) || NEW_THREAD_TARGET_RE.test(prefixed[2]) || prefixed[2].startsWith("@")) {
+      throw new Error(`Unknown HXA-Connect account "${prefixed[1]}" in target "${target}" (configured: ${accounts.join(", ") || "none"})`);
+    }
+  }
+  return { accountId, target };
+}
+
+function parseNewThreadTarget(raw: string): { topic: string; tags: string[]; participants: string[] } {
+  let topic = raw.trim().replace(NEW_THREAD_TARGET_RE, "");
+  let query = "";
+  const q = topic.lastIndexOf("?");
+  if (q >= 0 && /^\w+=[^&]*(?:&\w+=[^&]*)*$/.test(topic.slice(q + 1))) {
+    query = topic.slice(q + 1);
+    topic = topic.slice(0, q);
+  }
+  topic = topic.trim();
+  if (!topic) throw new Error(`Invalid HXA-Connect target "${raw}": new-thread needs a topic`);
+  const params = new URLSearchParams(query);
+  for (const key of params.keys()) {
+    if (key !== "tags" && key !== "participants") {
+      throw new Error(`Invalid HXA-Connect target "${raw}": unknown new-thread option "${key}" (tags, participants)`);
+    }
+  }
+  const list = (key: string) =>
+    [...new Set(params.getAll(key).flatMap((v) => v.split(",")).map((v) => v.trim().replace(/^@/, "")).filter(Boolean))];
+  return { topic, tags: list("tags"), participants: list("participants") };
+}
+
+function isWellFormedTarget(raw: string): boolean {
+  let target = raw.trim();
+  const prefixed = ACCOUNT_TARGET_RE.exec(target);
+  if (prefixed && (EXPLICIT_TARGET_RE.test(prefixed[2]) || NEW_THREAD_TARGET_RE.test(prefixed[2]) || prefixed[2].startsWith("@"))) {
+    target = prefixed[2];
+  }
+  if (NEW_THREAD_TARGET_RE.test(target)) {
+    try { return !!parseNewThreadTarget(target); } catch { return false; }
+  }
+  const explicit = EXPLICIT_TARGET_RE.exec(target);
+  if (explicit) {
+    const value = explicit[2].trim();
+    return explicit[1].toLowerCase() === "dm" ? /^[^\s/]+$/.test(value) : CHANNEL_ID_RE.test(value);
+  }
+  if (target.startsWith("@")) return /^@[^\s@/]+$/.test(target);
+  return target.length > 0;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function suggestTargets(
+  peers: { name: string; id?: string }[],
+  threads: [string, { topic?: string }][],
+  value: string,
+  limit = 3,
+): string[] {
+  const wanted = value.toLowerCase();
+  const candidates = [
+    ...peers.map((p) => ({ label: `dm:${p.name}`, keys: [p.name, p.id] })),
+    ...threads.map(([id, m]) => ({ label: `thread:${id}${m.topic ? ` ("${m.topic}")` : ""}`, keys: [id, m.topic] })),
+  ];
+  const maxDistance = Math.max(2, Math.floor(wanted.length / 3));
+  return candidates
+    .map((c) => {
+      const scores = c.keys.filter((k): k is string => !!k).map((k) => {
+        const key = k.toLowerCase();
+        return wanted.length >= 3 && key.includes(wanted) ? 1 : editDistance(key, wanted);
+      });
+      return { label: c.label, score: Math.min(...scores) };
+    })
+    .filter((c) => c.score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.label.localeCompare(b.label))
+    .slice(0, limit)
+    .map((c) => c.label);
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("splitAccountTarget", () => {
+  const accounts = ["default", "work"];
+
+  it("switches to a configured account", () => {
+    assert.deepEqual(splitAccountTarget(accounts, "default", "work/dm:zylos01"), { accountId: "work", target: "dm:zylos01" });
+    assert.deepEqual(splitAccountTarget(accounts, "default", "work/zylos01"), { accountId: "work", target: "zylos01" });
+  });
+
+  it("keeps slashes in bare targets that don't name an account", () => {
+    assert.deepEqual(splitAccountTarget(accounts, "default", "Q3/Q4 review"), { accountId: "default", target: "Q3/Q4 review" });
+  });
+
+  it("rejects an unknown account in front of an explicit target", () => {
+    assert.throws(() => splitAccountTarget(accounts, "default", "wrok/thread:abc"), /Unknown HXA-Connect account "wrok".*default, work/);
+    assert.throws(() => splitAccountTarget(accounts, "default", "wrok/new-thread:Launch"), /Unknown HXA-Connect account "wrok"/);
+  });
+
+  it("switches accounts for new-thread targets", () => {
+    assert.deepEqual(splitAccountTarget(accounts, "default", "work/new-thread:Launch?tags=a/b"), {
+      accountId: "work",
+      target: "new-thread:Launch?tags=a/b",
+    });
+  });
+});
+
+describe("isWellFormedTarget", () => {
+  it("accepts the explicit forms", () => {
+    for (const t of ["dm:zylos01", "DM:bot-123", "thread:11111111-1111-1111-1111-111111111111", "channel:c_1", "@zylos01", "work/dm:zylos01"]) {
+      assert.ok(isWellFormedTarget(t), t);
+    }
+  });
+
+  it("rejects empty or malformed explicit values", () => {
+    for (const t of ["", "  ", "dm:", "dm:two words", "thread:", "thread:../etc", "channel:a b", "@", "@a b", "work/thread:"]) {
+      assert.ok(!isWellFormedTarget(t), t);
+    }
+  });
+
+  it("accepts new-thread targets with a topic and known options", () => {
+    for (const t of ["new-thread:Launch", "New-Thread: Ship it?", "new-thread:Q3?tags=a,b&participants=@x", "work/new-thread:Launch", "other/new-thread:Q3?participants=x"]) {
+      assert.ok(isWellFormedTarget(t), t);
+    }
+  });
+
+  it("rejects new-thread targets without a topic or with unknown options", () => {
+    for (const t of ["new-thread:", "new-thread:  ", "new-thread:?tags=a", "new-thread:x?invite=a", "work/new-thread:", "work/new-thread:x?invite=a"]) {
+      assert.ok(!isWellFormedTarget(t), t);
+    }
+  });
+
+  it("leaves bare names and topics to send-time resolution", () => {
+    assert.ok(isWellFormedTarget("zylos01"));
+    assert.ok(isWellFormedTarget("Q3 review"));
+  });
+});
+
+describe("suggestTargets", () => {
+  const peers = [{ name: "zylos01", id: "bot-1" }, { name: "zylos02" }, { name: "reviewer" }];
+  const threads: [string, { topic?: string }][] = [["t-123", { topic: "Launch plan" }]];
+
+  it("lists close peer names for a typo", () => {
+    assert.deepEqual(suggestTargets(peers, threads, "zylso01"), ["dm:zylos01"]);
+    assert.deepEqual(suggestTargets(peers, threads, "zylos0"), ["dm:zylos01", "dm:zylos02"]);
+  });
+
+  it("matches thread topics by substring", () => {
+    assert.deepEqual(suggestTargets(peers, threads, "launch"), ['thread:t-123 ("Launch plan")']);
+  });
+
+  it("returns nothing for unrelated targets", () => {
+    assert.deepEqual(suggestTargets(peers, threads, "completely-different"), []);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for outbound target resolution: matchThreadTopic(), lookupTarget(),
+ * requirePeer()/requireThread() and resolveOutboundTarget() against a cached
+ * directory of threads, channels and peers.
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing. Hub refreshes and thread probes are stubbed, and
+ * isWellFormedTarget() keeps only the explicit-prefix checks used here.
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface ResolvedTarget {
+  kind: "dm" | "thread" | "channel";
+  id: string;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLOSED_THREAD_STATUSES = new Set(["resolved", "closed"]);
+const CHANNEL_ID_RE = /^[a-zA-Z0-9_-]{1,64}$/;
+const EXPLICIT_TARGET_RE = /^(dm|thread|channel):(.*)$/i;
+const TARGET_SYNTAX_HELP = "use dm:<name|id>, thread:<id>, channel:<id> or new-thread:<topic>, optionally prefixed with <account>/";
+
+const threads = new Map<string, { topic?: string; status?: string }>();
+const channels = new Map<string, string | null>();
+const peers = new Map<string, { name: string; id?: string }>();
+let refreshes = 0;
+let probes: string[] = [];
+let onRefresh: () => void = () => {};
+
+function lookupPeer(nameOrId: string) {
+  const byName = peers.get(nameOrId.toLowerCase());
+  if (byName) return byName;
+  for (const peer of peers.values()) if (peer.id === nameOrId) return peer;
+  return undefined;
+}
+
+function matchThreadTopic(topic: string): ResolvedTarget | undefined {
+  const wanted = topic.toLowerCase();
+  const matches = [...threads].filter(([, m]) => m.topic?.toLowerCase() === wanted);
+  const open = matches.filter(([, m]) => !CLOSED_THREAD_STATUSES.has(m.status ?? ""));
+  const candidates = open.length ? open : matches;
+  if (candidates.length > 1) {
+    throw new Error(`Ambiguous thread topic "${topic}" (${candidates.map(([id]) => id).join(", ")}); use thread:<id>`);
+  }
+  return candidates.length ? { kind: "thread", id: candidates[0][0] } : undefined;
+}
+
+function lookupTarget(target: string): ResolvedTarget | undefined {
+  if (threads.has(target)) return { kind: "thread", id: target };
+  if (channels.has(target)) return { kind: "channel", id: target };
+  const peer = lookupPeer(target);
+  if (peer) return { kind: "dm", id: peer.name };
+  return matchThreadTopic(target);
+}
+
+async function refreshTargetDirectory(): Promise<void> {
+  refreshes++;
+  onRefresh();
+}
+
+async function probeThread(id: string): Promise<boolean> {
+  probes.push(id);
+  return false;
+}
+
+async function requirePeer(nameOrId: string): Promise<string> {
+  const known = lookupPeer(nameOrId);
+  if (known) return known.name;
+  await refreshTargetDirectory();
+  const fresh = lookupPeer(nameOrId);
+  if (fresh) return fresh.name;
+  if (!peers.size) return nameOrId;
+  throw new Error(`Unknown HXA-Connect bot "${nameOrId}"`);
+}
+
+async function requireThread(threadId: string): Promise<string> {
+  if (threads.has(threadId)) return threadId;
+  if (await probeThread(threadId)) return threadId;
+  throw new Error(`Unknown HXA-Connect thread "${threadId}"`);
+}
+
+function isWellFormedTarget(raw: string): boolean {
+  const explicit = EXPLICIT_TARGET_RE.exec(raw.trim());
+  if (explicit) {
+    const value = explicit[2].trim();
+    return explicit[1].toLowerCase() === "dm" ? /^[^\s/]+$/.test(value) : CHANNEL_ID_RE.test(value);
+  }
+  return raw.trim().length > 0;
+}
+
+async function resolveOutboundTarget(raw: string): Promise<ResolvedTarget> {
+  const target = raw.trim();
+  const explicit = EXPLICIT_TARGET_RE.exec(target);
+  if (explicit) {
+    const kind = explicit[1].toLowerCase() as ResolvedTarget["kind"];
+    const value = explicit[2].trim();
+    if (!isWellFormedTarget(target)) {
+      throw new Error(`Invalid HXA-Connect target "${raw}"; ${TARGET_SYNTAX_HELP}`);
+    }
+    if (kind === "channel") return { kind, id: value };
+    if (kind === "thread") return { kind, id: await requireThread(value) };
+    return { kind, id: await requirePeer(value) };
+  }
+  if (target.startsWith("@")) return { kind: "dm", id: await requirePeer(target.slice(1)) };
+  if (!target) throw new Error(`Empty HXA-Connect target; ${TARGET_SYNTAX_HELP}`);
+  const cached = lookupTarget(target);
+  if (cached) return cached;
+  await refreshTargetDirectory();
+  const fresh = lookupTarget(target);
+  if (fresh) return fresh;
+  if (UUID_RE.test(target) && await probeThread(target)) return { kind: "thread", id: target };
+  return { kind: "dm", id: await requirePeer(target) };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+const T1 = "11111111-1111-1111-1111-111111111111";
+const T2 = "22222222-2222-2222-2222-222222222222";
+
+describe("resolveOutboundTarget", () => {
+  beforeEach(() => {
+    threads.clear();
+    channels.clear();
+    peers.clear();
+    refreshes = 0;
+    probes = [];
+    onRefresh = () => {};
+  });
+
+  it("resolves explicit prefixes against the directory", async () => {
+    threads.set(T1, {});
+    peers.set("zylos01", { name: "Zylos01", id: "bot-9" });
+    assert.deepEqual(await resolveOutboundTarget(`Thread:${T1}`), { kind: "thread", id: T1 });
+    assert.deepEqual(await resolveOutboundTarget("channel:c1"), { kind: "channel", id: "c1" });
+    assert.deepEqual(await resolveOutboundTarget("@zylos01"), { kind: "dm", id: "Zylos01" });
+    assert.deepEqual(await resolveOutboundTarget("dm:bot-9"), { kind: "dm", id: "Zylos01" });
+    assert.equal(refreshes, 0);
+  });
+
+  it("rejects unknown bots and threads once the directory is loaded", async () => {
+    peers.set("zylos01", { name: "zylos01" });
+    await assert.rejects(resolveOutboundTarget("dm:zylso01"), /Unknown HXA-Connect bot "zylso01"/);
+    await assert.rejects(resolveOutboundTarget("zylso01"), /Unknown HXA-Connect bot/);
+    await assert.rejects(resolveOutboundTarget(`thread:${T2}`), /Unknown HXA-Connect thread/);
+  });
+
+  it("rejects malformed explicit targets before any lookup", async () => {
+    await assert.rejects(resolveOutboundTarget("thread:../etc"), /Invalid HXA-Connect target "thread:\.\.\/etc"; use dm:/);
+    await assert.rejects(resolveOutboundTarget("thread:"), /Invalid HXA-Connect target/);
+    await assert.rejects(resolveOutboundTarget("dm:two words"), /Invalid HXA-Connect target/);
+    assert.equal(refreshes, 0);
+    assert.deepEqual(probes, []);
+  });
+
+  it("rejects an empty target", async () => {
+    await assert.rejects(resolveOutboundTarget("   "), /Empty HXA-Connect target; use dm:/);
+    assert.equal(refreshes, 0);
+  });
+
+  it("resolves cached threads, channels and peers without touching the hub", async () => {
+    threads.set(T1, { topic: "Q3 review" });
+    channels.set("chan_abcdefghijklmnopqrstu", null);
+    peers.set("zylos01", { name: "Zylos01", id: "bot-9" });
+    assert.deepEqual(await resolveOutboundTarget(T1), { kind: "thread", id: T1 });
+    assert.deepEqual(await resolveOutboundTarget("chan_abcdefghijklmnopqrstu"), { kind: "channel", id: "chan_abcdefghijklmnopqrstu" });
+    assert.deepEqual(await resolveOutboundTarget("bot-9"), { kind: "dm", id: "Zylos01" });
+    assert.deepEqual(await resolveOutboundTarget("q3 REVIEW"), { kind: "thread", id: T1 });
+    assert.equal(refreshes, 0);
+    assert.deepEqual(probes, []);
+  });
+
+  it("sends a 20+ character bot name as a DM, not to a channel", async () => {
+    const name = "a-very-long-bot-name-01";
+    peers.set(name, { name });
+    assert.deepEqual(await resolveOutboundTarget(name), { kind: "dm", id: name });
+  });
+
+  it("reloads the directory once on a miss", async () => {
+    onRefresh = () => threads.set(T2, { topic: "launch" });
+    assert.deepEqual(await resolveOutboundTarget("launch"), { kind: "thread", id: T2 });
+    assert.equal(refreshes, 1);
+  });
+
+  it("probes only unknown UUIDs, falling back to a DM without a peer list", async () => {
+    assert.deepEqual(await resolveOutboundTarget(T2), { kind: "dm", id: T2 });
+    assert.deepEqual(await resolveOutboundTarget("someone"), { kind: "dm", id: "someone" });
+    assert.deepEqual(probes, [T2]);
+  });
+});
+
+describe("matchThreadTopic", () => {
+  beforeEach(() => threads.clear());
+
+  it("prefers open threads over resolved or closed ones", () => {
+    threads.set(T1, { topic: "Release", status: "closed" });
+    threads.set(T2, { topic: "Release", status: "active" });
+    assert.deepEqual(matchThreadTopic("release"), { kind: "thread", id: T2 });
+  });
+
+  it("rejects ambiguous topics", () => {
+    threads.set(T1, { topic: "Release", status: "active" });
+    threads.set(T2, { topic: "release", status: "blocked" });
+    assert.throws(() => matchThreadTopic("Release"), /Ambiguous thread topic/);
+  });
+});
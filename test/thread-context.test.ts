@@ -0,0 +1,191 @@
+/**
+ * Tests for the token-budgeted thread context builder: buildContextLines(),
+ * resolveThreadContextConfig() and needsBackfill().
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing. Context messages here carry no parts, so
+ * formatAttachments() is reduced to a no-op.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface ThreadContextConfig {
+  maxMessages?: number;
+  maxChars?: number;
+  maxTokens?: number;
+  maxMessageChars?: number;
+  includeTopic?: boolean;
+  includeArtifacts?: boolean;
+  backfill?: boolean;
+  backfillMessages?: number;
+}
+
+interface Acct {
+  threadContext?: ThreadContextConfig;
+  access?: { threads?: Record<string, { context?: ThreadContextConfig }> };
+}
+
+const DEFAULT_CONTEXT_MAX_MESSAGES = 50;
+const DEFAULT_CONTEXT_MAX_CHARS = 16_000;
+const DEFAULT_CONTEXT_MAX_MESSAGE_CHARS = 2_000;
+const CHARS_PER_TOKEN = 4;
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function formatAttachments(_parts: any[] | undefined): string {
+  return "";
+}
+
+function msgSender(msg: any): string {
+  return msg.sender_name || msg.sender_id || "unknown";
+}
+
+function resolveThreadContextConfig(acct: Acct, threadId: string): ThreadContextConfig {
+  return { ...acct.threadContext, ...acct.access?.threads?.[threadId]?.context };
+}
+
+function buildContextLines(
+  messages: any[],
+  budget: ThreadContextConfig = {},
+): { lines: string[]; omitted: number } {
+  const maxMessages = budget.maxMessages ?? DEFAULT_CONTEXT_MAX_MESSAGES;
+  const maxChars = Math.min(
+    budget.maxChars ?? DEFAULT_CONTEXT_MAX_CHARS,
+    budget.maxTokens != null ? budget.maxTokens * CHARS_PER_TOKEN : Infinity,
+  );
+  const maxMessageChars = budget.maxMessageChars ?? DEFAULT_CONTEXT_MAX_MESSAGE_CHARS;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0 && lines.length < maxMessages; i--) {
+    const m = messages[i];
+    let text = m.content || "";
+    if (text.length > maxMessageChars) {
+      text = `${text.slice(0, maxMessageChars)}… [${text.length - maxMessageChars} chars truncated]`;
+    }
+    const line = `[${escapeXml(msgSender(m))}]: ${escapeXml(text)}${escapeXml(formatAttachments(m.parts))}`;
+    if (used + line.length > maxChars) break;
+    used += line.length + 1;
+    lines.unshift(line);
+  }
+  return { lines, omitted: messages.length - lines.length };
+}
+
+const DEFAULT_BACKFILL_MESSAGES = 20;
+const MAX_BACKFILLED_THREADS = 1000;
+const backfilledThreads = new Map<string, Set<string>>();
+
+function needsBackfill(
+  accountId: string,
+  threadId: string,
+  budget: ThreadContextConfig,
+  buffered: any[],
+  mention: boolean,
+): boolean {
+  if (!budget.backfill || !mention) return false;
+  let done = backfilledThreads.get(accountId);
+  if (!done) {
+    done = new Set();
+    backfilledThreads.set(accountId, done);
+  }
+  if (done.has(threadId)) return false;
+  done.add(threadId);
+  if (done.size > MAX_BACKFILLED_THREADS) done.delete(done.values().next().value!);
+  return buffered.length < (budget.backfillMessages ?? DEFAULT_BACKFILL_MESSAGES);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+function msgs(n: number, content = "hello"): any[] {
+  return Array.from({ length: n }, (_, i) => ({ id: `m${i}`, sender_name: `bot${i}`, content }));
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("buildContextLines", () => {
+  it("keeps everything within the default budget", () => {
+    const { lines, omitted } = buildContextLines(msgs(3));
+    assert.deepEqual(lines, ["[bot0]: hello", "[bot1]: hello", "[bot2]: hello"]);
+    assert.equal(omitted, 0);
+  });
+
+  it("drops the oldest messages beyond maxMessages", () => {
+    const { lines, omitted } = buildContextLines(msgs(5), { maxMessages: 2 });
+    assert.deepEqual(lines, ["[bot3]: hello", "[bot4]: hello"]);
+    assert.equal(omitted, 3);
+  });
+
+  it("applies the default message cap to very busy threads", () => {
+    const { lines, omitted } = buildContextLines(msgs(80));
+    assert.equal(lines.length, DEFAULT_CONTEXT_MAX_MESSAGES);
+    assert.equal(omitted, 30);
+  });
+
+  it("stops at the character budget, newest first", () => {
+    // Each line is "[botN]: hello" = 13 chars plus a newline
+    const { lines, omitted } = buildContextLines(msgs(10), { maxChars: 30 });
+    assert.deepEqual(lines, ["[bot8]: hello", "[bot9]: hello"]);
+    assert.equal(omitted, 8);
+  });
+
+  it("uses the tighter of maxChars and maxTokens", () => {
+    const { lines } = buildContextLines(msgs(10), { maxChars: 10_000, maxTokens: 4 });
+    assert.equal(lines.length, 1);
+  });
+
+  it("truncates individual long messages", () => {
+    const { lines } = buildContextLines(msgs(1, "x".repeat(50)), { maxMessageChars: 10 });
+    assert.equal(lines[0], `[bot0]: ${"x".repeat(10)}… [40 chars truncated]`);
+  });
+
+  it("omits everything when even the newest message exceeds the budget", () => {
+    const { lines, omitted } = buildContextLines(msgs(2, "x".repeat(100)), { maxChars: 20 });
+    assert.deepEqual(lines, []);
+    assert.equal(omitted, 2);
+  });
+
+  it("escapes XML in sender and content", () => {
+    const { lines } = buildContextLines([{ sender_name: "<b>", content: "a & </thread-context>" }]);
+    assert.equal(lines[0], "[&lt;b&gt;]: a &amp; &lt;/thread-context&gt;");
+  });
+});
+
+describe("resolveThreadContextConfig", () => {
+  it("overrides the account budget per thread", () => {
+    const acct: Acct = {
+      threadContext: { maxMessages: 20, includeTopic: true },
+      access: { threads: { t1: { context: { maxMessages: 5 } } } },
+    };
+    assert.deepEqual(resolveThreadContextConfig(acct, "t1"), { maxMessages: 5, includeTopic: true });
+    assert.deepEqual(resolveThreadContextConfig(acct, "t2"), { maxMessages: 20, includeTopic: true });
+  });
+
+  it("returns an empty budget when nothing is configured", () => {
+    assert.deepEqual(resolveThreadContextConfig({}, "t1"), {});
+  });
+});
+
+describe("needsBackfill", () => {
+  const budget = { backfill: true, backfillMessages: 5 };
+
+  it("backfills only the first real mention per thread", () => {
+    assert.equal(needsBackfill("a", "t1", budget, msgs(1), true), true);
+    assert.equal(needsBackfill("a", "t1", budget, [], true), false);
+    assert.equal(needsBackfill("b", "t1", budget, [], true), true);
+  });
+
+  it("skips smart-mode deliveries without a mention", () => {
+    assert.equal(needsBackfill("a", "t2", budget, [], false), false);
+    assert.equal(needsBackfill("a", "t2", budget, [], true), true);
+  });
+
+  it("skips a long enough buffer and a budget without backfill", () => {
+    assert.equal(needsBackfill("a", "t3", budget, msgs(5), true), false);
+    assert.equal(needsBackfill("a", "t4", {}, [], true), false);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for webhook authentication: verifyWebhookRequest(), safeEqual(),
+ * computeWebhookSignature() and the replay nonce cache.
+ *
+ * These functions are module-scoped in index.ts, so we re-implement the same
+ * logic here for unit testing.
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+
+// ─── Re-implement the pure functions from index.ts for testing ──────────
+
+interface Acct {
+  webhookSecret?: string;
+  webhookAuth?: { mode?: "bearer" | "hmac" | "auto"; toleranceSeconds?: number };
+}
+
+const WEBHOOK_SIGNATURE_HEADER = "x-hub-signature";
+const WEBHOOK_TIMESTAMP_HEADER = "x-hub-timestamp";
+const DEFAULT_WEBHOOK_TOLERANCE_SEC = 300;
+const MAX_WEBHOOK_NONCES = 10_000;
+
+const webhookNonces = new Map<string, number>();
+
+function safeEqual(a: string, b: string): boolean {
+  const ha = crypto.createHash("sha256").update(a).digest();
+  const hb = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(ha, hb);
+}
+
+function computeWebhookSignature(secret: string, timestamp: string, rawBody: Buffer): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.`).update(rawBody).digest("hex");
+}
+
+function headerValue(headers: Record<string, any>, name: string): string {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return String(Array.isArray(value) ? value[0] : value ?? "").trim();
+}
+
+function rememberWebhookNonce(signature: string, ttlMs: number, now: number): boolean {
+  for (const [key, expiry] of webhookNonces) {
+    if (expiry > now && webhookNonces.size < MAX_WEBHOOK_NONCES) break;
+    webhookNonces.delete(key);
+  }
+  if (webhookNonces.has(signature)) return false;
+  webhookNonces.set(signature, now + ttlMs);
+  return true;
+}
+
+function verifyWebhookRequest(
+  acct: Acct,
+  headers: Record<string, any>,
+  rawBody: Buffer | null,
+  now: number = Date.now(),
+): string | null {
+  const secret = acct.webhookSecret;
+  if (!secret) return null;
+  const mode = acct.webhookAuth?.mode || "auto";
+  const signatureHeader = headerValue(headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (mode === "bearer" || (mode === "auto" && !signatureHeader)) {
+    const authHeader = headerValue(headers, "authorization");
+    const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : "";
+    return token && safeEqual(token, secret) ? null : "invalid bearer token";
+  }
+
+  if (!signatureHeader) return "missing signature";
+  const timestamp = headerValue(headers, WEBHOOK_TIMESTAMP_HEADER);
+  if (!/^\d+$/.test(timestamp)) return "missing or invalid timestamp";
+  if (!rawBody) return "raw body unavailable for signature verification";
+
+  const tsNum = Number(timestamp);
+  const tsMs = tsNum > 1e12 ? tsNum : tsNum * 1000;
+  const toleranceMs = (acct.webhookAuth?.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SEC) * 1000;
+  if (Math.abs(now - tsMs) > toleranceMs) return "timestamp outside tolerance window";
+
+  const provided = signatureHeader.replace(/^sha256=/i, "").toLowerCase();
+  const expected = computeWebhookSignature(secret, timestamp, rawBody);
+  if (!safeEqual(provided, expected)) return "signature mismatch";
+
+  if (!rememberWebhookNonce(expected, toleranceMs * 2, now)) return "replayed request";
+  return null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────
+
+const SECRET = "whsec_test";
+const NOW = 1_760_000_000_000;
+const BODY = Buffer.from(JSON.stringify({ sender_name: "zylos01", content: "hi" }));
+
+function signed(body: Buffer, tsSec: number, secret = SECRET): Record<string, string> {
+  const ts = String(tsSec);
+  return {
+    "x-hub-timestamp": ts,
+    "x-hub-signature": `sha256=${computeWebhookSignature(secret, ts, body)}`,
+  };
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────
+
+describe("safeEqual", () => {
+  it("returns true for identical strings", () => {
+    assert.ok(safeEqual("abc", "abc"));
+  });
+
+  it("returns false for different strings of different lengths", () => {
+    assert.ok(!safeEqual("abc", "abcd"));
+    assert.ok(!safeEqual("", "x"));
+  });
+});
+
+describe("verifyWebhookRequest: bearer", () => {
+  beforeEach(() => webhookNonces.clear());
+
+  it("allows everything when no secret is configured", () => {
+    assert.equal(verifyWebhookRequest({}, {}, BODY, NOW), null);
+  });
+
+  it("accepts a matching bearer token in auto mode", () => {
+    const headers = { authorization: `Bearer ${SECRET}` };
+    assert.equal(verifyWebhookRequest({ webhookSecret: SECRET }, headers, BODY, NOW), null);
+  });
+
+  it("rejects a wrong or missing bearer token", () => {
+    const acct = { webhookSecret: SECRET };
+    assert.equal(verifyWebhookRequest(acct, { authorization: "Bearer nope" }, BODY, NOW), "invalid bearer token");
+    assert.equal(verifyWebhookRequest(acct, {}, BODY, NOW), "invalid bearer token");
+  });
+
+  it("ignores signature headers in bearer mode", () => {
+    const acct: Acct = { webhookSecret: SECRET, webhookAuth: { mode: "bearer" } };
+    const headers = signed(BODY, NOW / 1000);
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), "invalid bearer token");
+  });
+});
+
+describe("verifyWebhookRequest: hmac", () => {
+  beforeEach(() => webhookNonces.clear());
+
+  const acct: Acct = { webhookSecret: SECRET, webhookAuth: { mode: "hmac" } };
+
+  it("accepts a valid signature", () => {
+    assert.equal(verifyWebhookRequest(acct, signed(BODY, NOW / 1000), BODY, NOW), null);
+  });
+
+  it("accepts a bare hex signature and millisecond timestamp", () => {
+    const ts = String(NOW);
+    const headers = {
+      "x-hub-timestamp": ts,
+      "x-hub-signature": computeWebhookSignature(SECRET, ts, BODY),
+    };
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), null);
+  });
+
+  it("uses HMAC automatically in auto mode when signed", () => {
+    const autoAcct = { webhookSecret: SECRET };
+    assert.equal(verifyWebhookRequest(autoAcct, signed(BODY, NOW / 1000), BODY, NOW), null);
+  });
+
+  it("rejects a bearer token in hmac mode", () => {
+    const headers = { authorization: `Bearer ${SECRET}` };
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), "missing signature");
+  });
+
+  it("rejects a tampered body", () => {
+    const headers = signed(BODY, NOW / 1000);
+    const tampered = Buffer.from(JSON.stringify({ sender_name: "mallory", content: "hi" }));
+    assert.equal(verifyWebhookRequest(acct, headers, tampered, NOW), "signature mismatch");
+  });
+
+  it("rejects a signature made with another secret", () => {
+    const headers = signed(BODY, NOW / 1000, "other");
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), "signature mismatch");
+  });
+
+  it("rejects a missing or malformed timestamp", () => {
+    const headers = { "x-hub-signature": "sha256=00" };
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), "missing or invalid timestamp");
+    assert.equal(
+      verifyWebhookRequest(acct, { ...headers, "x-hub-timestamp": "yesterday" }, BODY, NOW),
+      "missing or invalid timestamp",
+    );
+  });
+
+  it("rejects timestamps outside the tolerance window", () => {
+    const stale = signed(BODY, NOW / 1000 - 301);
+    assert.equal(verifyWebhookRequest(acct, stale, BODY, NOW), "timestamp outside tolerance window");
+    const future = signed(BODY, NOW / 1000 + 301);
+    assert.equal(verifyWebhookRequest(acct, future, BODY, NOW), "timestamp outside tolerance window");
+  });
+
+  it("honors a custom tolerance", () => {
+    const strict: Acct = { webhookSecret: SECRET, webhookAuth: { mode: "hmac", toleranceSeconds: 10 } };
+    const headers = signed(BODY, NOW / 1000 - 30);
+    assert.equal(verifyWebhookRequest(strict, headers, BODY, NOW), "timestamp outside tolerance window");
+  });
+
+  it("rejects when the raw body is unavailable", () => {
+    const headers = signed(BODY, NOW / 1000);
+    assert.equal(
+      verifyWebhookRequest(acct, headers, null, NOW),
+      "raw body unavailable for signature verification",
+    );
+  });
+
+  it("rejects a replay of an accepted request", () => {
+    const headers = signed(BODY, NOW / 1000);
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW), null);
+    assert.equal(verifyWebhookRequest(acct, headers, BODY, NOW + 1000), "replayed request");
+  });
+
+  it("accepts the same body again with a fresh timestamp", () => {
+    assert.equal(verifyWebhookRequest(acct, signed(BODY, NOW / 1000), BODY, NOW), null);
+    assert.equal(verifyWebhookRequest(acct, signed(BODY, NOW / 1000 + 1), BODY, NOW + 1000), null);
+  });
+
+  it("reads array-valued headers", () => {
+    const headers = signed(BODY, NOW / 1000);
+    const arrayHeaders = {
+      "x-hub-timestamp": [headers["x-hub-timestamp"]],
+      "x-hub-signature": [headers["x-hub-signature"]],
+    };
+    assert.equal(verifyWebhookRequest(acct, arrayHeaders, BODY, NOW), null);
+  });
+});